@@ -21,19 +21,23 @@ cd ../../
 # Build Node.js packages
 echo "Building Node.js packages..."
 
-cd nodejs/authentik-mcp
-echo "Building authentik-mcp (Node.js)..."
+cd nodejs
+echo "Installing Node.js workspace dependencies..."
 npm install
-npm run build
+
+echo "Building authentik-mcp-core (Node.js)..."
+npm run build -w @cdmx/authentik-mcp-core
+echo "✓ authentik-mcp-core (Node.js) built successfully"
+
+echo "Building authentik-mcp (Node.js)..."
+npm run build -w @cdmx/authentik-mcp
 echo "✓ authentik-mcp (Node.js) built successfully"
 
-cd ../authentik-diag-mcp
 echo "Building authentik-diag-mcp (Node.js)..."
-npm install
-npm run build
+npm run build -w @cdmx/authentik-diag-mcp
 echo "✓ authentik-diag-mcp (Node.js) built successfully"
 
-cd ../../
+cd ../
 
 echo ""
 echo "All packages built successfully!"
@@ -43,6 +47,7 @@ echo "- python/authentik-mcp/dist/"
 echo "- python/authentik-diag-mcp/dist/"
 echo ""
 echo "Node.js packages:"
+echo "- nodejs/authentik-mcp-core/dist/"
 echo "- nodejs/authentik-mcp/dist/"
 echo "- nodejs/authentik-diag-mcp/dist/"
 echo ""
@@ -0,0 +1,228 @@
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { AuthentikConfig } from './config.js';
+import { CircuitBreaker, ConcurrencyLimiter, isConnectionError, retryDelay } from './resilience.js';
+
+export type HttpMethod = 'GET' | 'HEAD' | 'OPTIONS' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+const READ_ONLY_METHODS: HttpMethod[] = ['GET', 'HEAD', 'OPTIONS'];
+
+// Page size used when following pagination.next across several pages
+const FETCH_PAGE_SIZE = 100;
+
+/** A single page as returned by authentik's paginated list endpoints. */
+export interface PaginatedResponse<T = any> {
+  pagination: {
+    next: number;
+    previous: number;
+    count: number;
+    current: number;
+    total_pages: number;
+    start_index: number;
+    end_index: number;
+  };
+  results: T[];
+}
+
+/** Results merged from one or more pages of a list endpoint. */
+export interface MergedResults<T = any> {
+  count: number;
+  returned: number;
+  truncated: boolean;
+  pages_fetched: number;
+  results: T[];
+}
+
+/** One HTTP call made by the client, as reported to `onRequest`. */
+export interface RequestRecord {
+  method: HttpMethod;
+  endpoint: string;
+  /** HTTP status, or null when no response was received. */
+  status: number | null;
+  duration_ms: number;
+}
+
+/** A write attempted through a read-only client. */
+export class ReadOnlyError extends Error {}
+
+// Authentik API Client
+export class AuthentikClient {
+  private client: AxiosInstance;
+  private baseUrl: string;
+  private readOnly: boolean;
+  private debug: boolean;
+  private maxRetries: number;
+  private retryDelayMs: number;
+  private limiter: ConcurrencyLimiter;
+  private breaker: CircuitBreaker;
+
+  /** Called after every HTTP call, successful or not (e.g. for audit logging). */
+  onRequest?: (record: RequestRecord) => void;
+
+  constructor(config: AuthentikConfig) {
+    this.baseUrl = config.baseUrl.replace(/\/$/, '');
+    this.readOnly = config.readOnly;
+    this.debug = config.debug;
+    this.maxRetries = config.maxRetries;
+    this.retryDelayMs = config.retryDelay * 1000;
+    this.limiter = new ConcurrencyLimiter(config.maxConcurrency, (message) => this.log(message));
+    this.breaker = new CircuitBreaker(
+      this.baseUrl,
+      config.circuitBreakerThreshold,
+      config.circuitBreakerCooldown * 1000,
+      (message) => this.log(message)
+    );
+    this.client = axios.create({
+      baseURL: `${this.baseUrl}/api/v3/`,
+      headers: {
+        Authorization: `Bearer ${config.token}`,
+        'Content-Type': 'application/json',
+        ...(config.userAgent ? { 'User-Agent': config.userAgent } : {}),
+      },
+      httpsAgent: config.verifySSL ? undefined : { rejectUnauthorized: false },
+      timeout: config.timeout * 1000,
+    });
+  }
+
+  async request<T = any>(
+    method: HttpMethod,
+    endpoint: string,
+    data?: unknown,
+    params?: Record<string, unknown>
+  ): Promise<T> {
+    // Only allow read-only methods for read-only instances (e.g. the diagnostic server)
+    if (this.readOnly && !READ_ONLY_METHODS.includes(method)) {
+      throw new ReadOnlyError(`Method ${method} not allowed in read-only mode`);
+    }
+
+    return this.send<T>(method, endpoint, { data, params }, 'API request failed');
+  }
+
+  async upload<T = any>(endpoint: string, form: FormData): Promise<T> {
+    if (this.readOnly) {
+      throw new ReadOnlyError('Uploads are not allowed in read-only mode');
+    }
+
+    return this.send<T>(
+      'POST',
+      endpoint,
+      { data: form, headers: { 'Content-Type': 'multipart/form-data' } },
+      'API upload failed'
+    );
+  }
+
+  /**
+   * Send a request through the concurrency limiter and circuit breaker,
+   * retrying with backoff where `retryDelay` allows it. Every attempt is
+   * reported to `onRequest`; waiting for a retry does not hold a request slot.
+   */
+  private async send<T>(
+    method: HttpMethod,
+    endpoint: string,
+    options: AxiosRequestConfig,
+    failureMessage: string
+  ): Promise<T> {
+    const url = endpoint.startsWith('/') ? endpoint.slice(1) : endpoint;
+    for (let attempt = 0; ; attempt++) {
+      this.breaker.check();
+      const startedAt = Date.now();
+      try {
+        const response: AxiosResponse<T> = await this.limiter.run(() =>
+          this.client.request({ method, url, ...options })
+        );
+        this.report(method, endpoint, startedAt, response.status);
+        this.breaker.recordSuccess();
+        return response.data;
+      } catch (error: unknown) {
+        const status = responseStatus(error);
+        this.report(method, endpoint, startedAt, status);
+        if (isConnectionError(error)) {
+          this.breaker.recordFailure();
+        } else {
+          this.breaker.recordSuccess();
+        }
+
+        const delay =
+          attempt < this.maxRetries ? retryDelay(method, error, attempt, this.retryDelayMs) : null;
+        if (delay === null) {
+          logRequestError(failureMessage, error);
+          throw error;
+        }
+        const reason = status ?? (error instanceof Error ? error.message : 'no response');
+        this.log(
+          `retrying ${method} ${endpoint} in ${delay}ms after ${reason} (retry ${attempt + 1} of ${this.maxRetries})`
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private log(message: string) {
+    if (this.debug) {
+      console.error(`[debug] ${message}`);
+    }
+  }
+
+  private report(method: HttpMethod, endpoint: string, startedAt: number, status: number | null) {
+    const record = { method, endpoint, status, duration_ms: Date.now() - startedAt };
+    this.log(`${method} ${endpoint} -> ${status ?? 'no response'} (${record.duration_ms}ms)`);
+    this.onRequest?.(record);
+  }
+
+  /**
+   * Follow `pagination.next` of a list endpoint and merge the results,
+   * stopping once `maxItems` results have been collected. The results start at the
+   * first item of `params.page` pages of `params.page_size`, fetched in larger pages.
+   */
+  async listAll<T = any>(
+    endpoint: string,
+    params: Record<string, unknown> = {},
+    maxItems = Infinity
+  ): Promise<MergedResults<T>> {
+    const results: T[] = [];
+    let count = 0;
+    let pagesFetched = 0;
+    const pageSize = Math.min(FETCH_PAGE_SIZE, maxItems);
+    const start = ((Number(params.page) || 1) - 1) * (Number(params.page_size) || pageSize);
+    let page = Math.floor(start / pageSize) + 1;
+    // Items of the first fetched page that come before `start`
+    let skip = start % pageSize;
+
+    while (page && results.length < maxItems) {
+      const response = await this.request<PaginatedResponse<T>>('GET', endpoint, undefined, {
+        ...params,
+        page,
+        page_size: pageSize,
+      });
+      pagesFetched++;
+      count = response.pagination?.count ?? response.results.length;
+      results.push(...response.results.slice(skip));
+      skip = 0;
+      page = response.pagination?.next || 0;
+    }
+
+    return {
+      count,
+      returned: Math.min(results.length, maxItems),
+      truncated: results.length > maxItems || page !== 0,
+      pages_fetched: pagesFetched,
+      results: results.slice(0, maxItems),
+    };
+  }
+}
+
+function responseStatus(error: unknown): number | null {
+  if (error && typeof error === 'object' && 'response' in error && error.response) {
+    return (error as { response: { status: number } }).response.status;
+  }
+  return null;
+}
+
+function logRequestError(message: string, error: unknown) {
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  console.error(`${message}: ${errorMessage}`);
+  if (error && typeof error === 'object' && 'response' in error && error.response) {
+    const axiosError = error as { response: { status: number; data: unknown } };
+    console.error(`Status: ${axiosError.response.status}`);
+    console.error(`Data: ${JSON.stringify(axiosError.response.data)}`);
+  }
+}
@@ -0,0 +1,112 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ConfigError, loadAuthentikInstances } from './config.js';
+
+let dir: string;
+
+// Write a file into the test directory and return its path
+function file(name: string, content: string): string {
+  const path = join(dir, name);
+  writeFileSync(path, content);
+  return path;
+}
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), 'authentik-config-'));
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const defaultConfig = (options: Parameters<typeof loadAuthentikInstances>[0]) =>
+  loadAuthentikInstances(options).instances.default;
+
+describe('loadAuthentikInstances', () => {
+  it('prefers CLI flags over env vars over the config file over defaults', () => {
+    const configFile = file(
+      'precedence.yaml',
+      'baseUrl: https://file.example.com\ntoken: file\ntimeout: 10\nmaxRetries: 1\ndebug: true\n'
+    );
+    const config = defaultConfig({
+      cli: { timeout: 5 },
+      env: { AUTHENTIK_TIMEOUT: '7', AUTHENTIK_MAX_RETRIES: '2', AUTHENTIK_TOKEN: 'env' },
+      configFile,
+    });
+    expect(config).toMatchObject({
+      baseUrl: 'https://file.example.com',
+      token: 'env',
+      timeout: 5,
+      maxRetries: 2,
+      debug: true,
+      verifySSL: true,
+    });
+  });
+
+  it('lets overrides win over every source', () => {
+    const config = defaultConfig({
+      cli: { baseUrl: 'https://a.example.com', token: 't', readOnly: false },
+      env: {},
+      overrides: { readOnly: true },
+    });
+    expect(config.readOnly).toBe(true);
+  });
+
+  it('reads the token file of the highest source that gives a token', () => {
+    const tokenFile = file('token', '  from-file\n');
+    const config = defaultConfig({
+      cli: { baseUrl: 'https://a.example.com', tokenFile },
+      env: { AUTHENTIK_TOKEN: 'env' },
+    });
+    expect(config.token).toBe('from-file');
+  });
+
+  it('prefers a literal token over a token file of the same source', () => {
+    const config = defaultConfig({
+      env: {
+        AUTHENTIK_BASE_URL: 'https://a.example.com',
+        AUTHENTIK_TOKEN: 'literal',
+        AUTHENTIK_TOKEN_FILE: join(dir, 'missing'),
+      },
+    });
+    expect(config.token).toBe('literal');
+  });
+
+  it('reports a token file that cannot be read', () => {
+    expect(() =>
+      defaultConfig({
+        env: {
+          AUTHENTIK_BASE_URL: 'https://a.example.com',
+          AUTHENTIK_TOKEN_FILE: join(dir, 'missing'),
+        },
+      })
+    ).toThrow(ConfigError);
+  });
+
+  it('reports every invalid setting', () => {
+    expect(() => defaultConfig({ env: { AUTHENTIK_BASE_URL: 'not a url' } })).toThrow(
+      /baseUrl: Invalid url[\s\S]*token: Required/
+    );
+  });
+
+  it('takes connection settings only from the instance entries', () => {
+    const configFile = file(
+      'instances.yaml',
+      [
+        'timeout: 12',
+        'instances:',
+        '  prod: { baseUrl: https://prod.example.com, token: p }',
+        '  staging: { baseUrl: https://staging.example.com, token: s, timeout: 3 }',
+      ].join('\n')
+    );
+    const { defaultInstance, instances } = loadAuthentikInstances({
+      configFile,
+      env: { AUTHENTIK_BASE_URL: 'https://env.example.com', AUTHENTIK_INSTANCE: 'staging' },
+    });
+    expect(defaultInstance).toBe('staging');
+    expect(instances.prod).toMatchObject({ baseUrl: 'https://prod.example.com', timeout: 12 });
+    expect(instances.staging).toMatchObject({ baseUrl: 'https://staging.example.com', timeout: 3 });
+  });
+});
@@ -0,0 +1,248 @@
+import { readFileSync } from 'node:fs';
+import { load as loadYaml } from 'js-yaml';
+import { z, ZodError } from 'zod';
+
+// Configuration schema
+export const AuthentikConfigSchema = z.object({
+  baseUrl: z.string().url(),
+  token: z.string().min(1),
+  verifySSL: z.boolean().default(true),
+  readOnly: z.boolean().default(false),
+  /** Request timeout in seconds. */
+  timeout: z.number().positive().default(30),
+  /** Log every API request to stderr. */
+  debug: z.boolean().default(false),
+  userAgent: z.string().min(1).optional(),
+  /** Retries of a failed idempotent request (any request on HTTP 429). */
+  maxRetries: z.number().int().min(0).default(3),
+  /** Base delay of the exponential retry backoff, in seconds. */
+  retryDelay: z.number().positive().default(0.5),
+  /** Requests sent to Authentik at the same time; further requests queue. */
+  maxConcurrency: z.number().int().positive().default(8),
+  /** Consecutive connection errors after which requests fail fast (0 disables). */
+  circuitBreakerThreshold: z.number().int().min(0).default(5),
+  /** How long requests fail fast once the circuit breaker opened, in seconds. */
+  circuitBreakerCooldown: z.number().positive().default(30),
+});
+
+export type AuthentikConfig = z.infer<typeof AuthentikConfigSchema>;
+
+/** Values one configuration source provides; `tokenFile` is read into `token`. */
+export type ConfigLayer = Partial<AuthentikConfig> & { tokenFile?: string };
+
+// Name of the only instance when the config file defines no instances
+export const DEFAULT_INSTANCE = 'default';
+
+// Settings that identify a deployment and never apply to every instance at once
+const CONNECTION_KEYS = ['baseUrl', 'token', 'tokenFile'];
+
+// Settings accepted at the top level of a --config file and for each instance
+const ConfigFileSettingsSchema = z
+  .object({
+    baseUrl: z.string(),
+    token: z.string(),
+    tokenFile: z.string(),
+    verifySSL: z.boolean(),
+    readOnly: z.boolean(),
+    timeout: z.number(),
+    debug: z.boolean(),
+    userAgent: z.string(),
+    maxRetries: z.number(),
+    retryDelay: z.number(),
+    maxConcurrency: z.number(),
+    circuitBreakerThreshold: z.number(),
+    circuitBreakerCooldown: z.number(),
+  })
+  .partial()
+  .strict();
+
+export const ConfigFileSchema = ConfigFileSettingsSchema.extend({
+  /** Named Authentik deployments, e.g. `prod` and `staging`. */
+  instances: z
+    .record(
+      z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, 'Use lowercase letters, digits, - and _'),
+      ConfigFileSettingsSchema
+    )
+    .optional(),
+  defaultInstance: z.string().optional(),
+}).strict();
+
+export type ConfigFile = z.infer<typeof ConfigFileSchema>;
+
+/** Validated configuration of every Authentik instance a server talks to. */
+export interface InstancesConfig {
+  defaultInstance: string;
+  instances: Record<string, AuthentikConfig>;
+}
+
+export class ConfigError extends Error {}
+
+/** One line per zod issue, prefixed with the path of the offending value. */
+export function formatZodError(error: ZodError): string {
+  return error.issues
+    .map((issue) => `  - ${issue.path.length ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('\n');
+}
+
+function parseBoolean(value?: string): boolean | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  return ['1', 'true', 'yes', 'on'].includes(value.toLowerCase());
+}
+
+function parseNumber(value?: string): number | undefined {
+  return value === undefined || value === '' ? undefined : Number(value);
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return value === undefined ? undefined : Number(value);
+}
+
+/** Configuration from AUTHENTIK_* environment variables. */
+export function configFromEnv(env: NodeJS.ProcessEnv = process.env): ConfigLayer {
+  return {
+    baseUrl: env.AUTHENTIK_BASE_URL || undefined,
+    token: env.AUTHENTIK_TOKEN || undefined,
+    tokenFile: env.AUTHENTIK_TOKEN_FILE || undefined,
+    verifySSL: parseBoolean(env.AUTHENTIK_VERIFY_SSL),
+    timeout: parseNumber(env.AUTHENTIK_TIMEOUT),
+    debug: parseBoolean(env.AUTHENTIK_DEBUG),
+    userAgent: env.AUTHENTIK_USER_AGENT || undefined,
+    maxRetries: parseNumber(env.AUTHENTIK_MAX_RETRIES),
+    retryDelay: parseNumber(env.AUTHENTIK_RETRY_DELAY),
+    maxConcurrency: parseNumber(env.AUTHENTIK_MAX_CONCURRENCY),
+    circuitBreakerThreshold: parseNumber(env.AUTHENTIK_CIRCUIT_BREAKER_THRESHOLD),
+    circuitBreakerCooldown: parseNumber(env.AUTHENTIK_CIRCUIT_BREAKER_COOLDOWN),
+  };
+}
+
+/** Configuration from parsed CLI options (commander's camelCased flag names). */
+export function configFromCliOptions(options: Record<string, unknown>): ConfigLayer {
+  return {
+    baseUrl: options.baseUrl as string | undefined,
+    token: options.token as string | undefined,
+    tokenFile: options.tokenFile as string | undefined,
+    // --no-verify-ssl only ever turns verification off; otherwise defer to other sources
+    verifySSL: options.verifySsl === false ? false : undefined,
+    timeout: optionalNumber(options.timeout),
+    debug: options.debug === true ? true : undefined,
+    userAgent: options.userAgent as string | undefined,
+    maxRetries: optionalNumber(options.maxRetries),
+    retryDelay: optionalNumber(options.retryDelay),
+    maxConcurrency: optionalNumber(options.maxConcurrency),
+  };
+}
+
+/** Read a YAML or JSON configuration file (JSON is valid YAML). */
+export function readConfigFile(path: string): unknown {
+  try {
+    return loadYaml(readFileSync(path, 'utf8')) ?? {};
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new ConfigError(`Cannot read config file ${path}: ${message}`);
+  }
+}
+
+/** Configuration from a --config file. */
+export function configFromFile(path: string): ConfigFile {
+  const parsed = ConfigFileSchema.safeParse(readConfigFile(path));
+  if (!parsed.success) {
+    throw new ConfigError(`Invalid config file ${path}:\n${formatZodError(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+function readTokenFile(path: string): string {
+  try {
+    return readFileSync(path, 'utf8').trim();
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new ConfigError(`Cannot read token file ${path}: ${message}`);
+  }
+}
+
+function definedValues(layer: ConfigLayer): ConfigLayer {
+  return Object.fromEntries(Object.entries(layer).filter(([, value]) => value !== undefined));
+}
+
+// Merge layers (highest precedence first) into one validated instance configuration
+function resolveConfig(layers: ConfigLayer[], label: string): AuthentikConfig {
+  const merged: ConfigLayer = Object.assign({}, ...[...layers].reverse());
+  const tokenLayer = layers.find((layer) => layer.token || layer.tokenFile);
+  const token =
+    tokenLayer?.token ?? (tokenLayer?.tokenFile ? readTokenFile(tokenLayer.tokenFile) : undefined);
+
+  // tokenFile is not part of the schema and is stripped here
+  const parsed = AuthentikConfigSchema.safeParse({ ...merged, token });
+  if (!parsed.success) {
+    throw new ConfigError(`Invalid ${label}:\n${formatZodError(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Merge configuration sources and validate the result. Precedence, highest first:
+ * 1. `overrides` (settings a server enforces, e.g. read-only mode)
+ * 2. CLI flags
+ * 3. Environment variables (AUTHENTIK_*)
+ * 4. The --config file (or AUTHENTIK_CONFIG)
+ * 5. Schema defaults
+ *
+ * Within a source a literal token wins over a token file, so a secret mounted
+ * via --token-file / AUTHENTIK_TOKEN_FILE never has to appear in `ps` output.
+ *
+ * When the config file defines `instances`, each instance is built from its own
+ * entry on top of the shared settings above; the connection settings (base URL
+ * and token) then only come from the instance entries.
+ */
+export function loadAuthentikInstances(
+  options: {
+    cli?: ConfigLayer;
+    configFile?: string;
+    env?: NodeJS.ProcessEnv;
+    overrides?: ConfigLayer;
+    /** Instance used when a tool call names none (or AUTHENTIK_INSTANCE). */
+    defaultInstance?: string;
+  } = {}
+): InstancesConfig {
+  const env = options.env ?? process.env;
+  const configFile = options.configFile ?? (env.AUTHENTIK_CONFIG || undefined);
+  const { instances, defaultInstance, ...fileSettings } = configFile
+    ? configFromFile(configFile)
+    : ({} as ConfigFile);
+  const shared = [options.cli ?? {}, configFromEnv(env), fileSettings].map(definedValues);
+  const overrides = definedValues(options.overrides ?? {});
+
+  if (!instances || Object.keys(instances).length === 0) {
+    return {
+      defaultInstance: DEFAULT_INSTANCE,
+      instances: { [DEFAULT_INSTANCE]: resolveConfig([overrides, ...shared], 'configuration') },
+    };
+  }
+
+  const sharedSettings = shared.map((layer) =>
+    Object.fromEntries(Object.entries(layer).filter(([key]) => !CONNECTION_KEYS.includes(key)))
+  );
+  const resolved = Object.fromEntries(
+    Object.entries(instances).map(([name, settings]) => [
+      name,
+      resolveConfig(
+        [overrides, definedValues(settings), ...sharedSettings],
+        `configuration of instance ${name}`
+      ),
+    ])
+  );
+
+  const selected =
+    options.defaultInstance ??
+    (env.AUTHENTIK_INSTANCE || undefined) ??
+    defaultInstance ??
+    Object.keys(instances)[0];
+  if (!resolved[selected]) {
+    throw new ConfigError(
+      `Unknown default instance: ${selected}. Expected one of ${Object.keys(resolved).join(', ')}`
+    );
+  }
+  return { defaultInstance: selected, instances: resolved };
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from '@jest/globals';
+import { parseCsv, toCsv } from './csv.js';
+
+describe('parseCsv', () => {
+  it('reads records keyed by the header row', () => {
+    expect(parseCsv('username,name\nalice,Alice\nbob,Bob\n')).toEqual([
+      { username: 'alice', name: 'Alice' },
+      { username: 'bob', name: 'Bob' },
+    ]);
+  });
+
+  it('handles quoted fields, escaped quotes and line breaks inside quotes', () => {
+    expect(parseCsv('name,note\r\n"Doe, Jane","say ""hi""\nagain"\r\n')).toEqual([
+      { name: 'Doe, Jane', note: 'say "hi"\nagain' },
+    ]);
+  });
+
+  it('skips blank lines and fills missing cells with empty strings', () => {
+    expect(parseCsv('\n a , b \n\n1\n   \n')).toEqual([{ a: '1', b: '' }]);
+  });
+
+  it('returns no records for empty content', () => {
+    expect(parseCsv('')).toEqual([]);
+  });
+
+  it('rejects an unterminated quoted field', () => {
+    expect(() => parseCsv('a\n"open')).toThrow('Invalid CSV: unterminated quoted field');
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes fields that need it and writes objects as JSON', () => {
+    expect(
+      toCsv(
+        ['name', 'groups', 'attributes', 'missing'],
+        [{ name: 'Doe, "J"', groups: 'a;b', attributes: { x: 1 } }]
+      )
+    ).toBe('name,groups,attributes,missing\n"Doe, ""J""",a;b,"{""x"":1}",');
+  });
+
+  it('prefixes text that a spreadsheet would run as a formula', () => {
+    expect(
+      toCsv(['a', 'b', 'c', 'd', 'e'], [{ a: '=1+1', b: '+x', c: '-x', d: '@SUM(A1)', e: -1 }])
+    ).toBe("a,b,c,d,e\n'=1+1,'+x,'-x,'@SUM(A1),-1");
+  });
+
+  it('writes what parseCsv reads back', () => {
+    const records = [{ a: 'line\nbreak', b: '"quoted"' }];
+    expect(parseCsv(toCsv(['a', 'b'], records))).toEqual(records);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Parse CSV (RFC 4180: comma separated, fields optionally quoted with `"`,
+ * quotes escaped by doubling them) into records keyed by the header row.
+ * Blank lines are skipped.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new Error('Invalid CSV: unterminated quoted field');
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...records] = rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+  if (!header) {
+    return [];
+  }
+  const columns = header.map((column) => column.trim());
+  return records.map((cells) =>
+    Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? '']))
+  );
+}
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvField(value: unknown): string {
+  const text =
+    value === null || value === undefined
+      ? ''
+      : typeof value === 'object'
+        ? JSON.stringify(value)
+        : typeof value === 'string' && FORMULA_PREFIX.test(value)
+          ? `'${value}`
+          : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Write records as CSV with the given columns; objects and arrays become JSON.
+ * Text that a spreadsheet would run as a formula is prefixed with `'`.
+ */
+export function toCsv(columns: string[], records: Record<string, unknown>[]): string {
+  return [columns, ...records.map((record) => columns.map((column) => record[column]))]
+    .map((cells) => cells.map(csvField).join(','))
+    .join('\n');
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from '@jest/globals';
+import { AxiosError } from 'axios';
+import { z } from 'zod';
+import { describeError, PermissionDeniedError, ToolInputError } from './errors.js';
+import { CircuitOpenError } from './resilience.js';
+import { parseToolArguments } from './tool-args.js';
+
+function invalidArguments(): unknown {
+  try {
+    parseToolArguments('authentik_get_user', z.object({ user_id: z.number() }), {});
+  } catch (error: unknown) {
+    return error;
+  }
+}
+
+describe('describeError', () => {
+  it('reports invalid arguments per field', () => {
+    expect(describeError(invalidArguments())).toMatchObject({
+      category: 'validation',
+      field_errors: { user_id: ['Required'] },
+    });
+  });
+
+  it('classifies tool input, permission and network errors', () => {
+    expect(describeError(new ToolInputError('Exactly one of a or b')).category).toBe('validation');
+    expect(describeError(new PermissionDeniedError('denied')).category).toBe('permission');
+    expect(describeError(new CircuitOpenError('open')).category).toBe('network');
+    expect(describeError(new AxiosError('timeout', 'ECONNABORTED')).category).toBe('network');
+  });
+
+  it('does not blame the arguments for unexpected errors', () => {
+    const details = describeError(
+      new TypeError("Cannot read properties of undefined (reading 'pk')")
+    );
+    expect(details.category).toBe('internal');
+    expect(details.hint).not.toMatch(/arguments and retry/);
+  });
+});
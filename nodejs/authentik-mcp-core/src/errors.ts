@@ -0,0 +1,228 @@
+import { isAxiosError } from 'axios';
+import { ReadOnlyError } from './client.js';
+import { CircuitOpenError, isConnectionError } from './resilience.js';
+import { InvalidArgumentsError } from './tool-args.js';
+
+export const ERROR_CATEGORIES = [
+  'auth',
+  'permission',
+  'not_found',
+  'validation',
+  'conflict',
+  'server',
+  'network',
+  'internal',
+] as const;
+
+export type ErrorCategory = (typeof ERROR_CATEGORIES)[number];
+
+/** What went wrong in a tool call, in a shape a model can act on. */
+export interface ErrorDetails {
+  error: string;
+  category: ErrorCategory;
+  /** HTTP status, or null when Authentik was never asked or did not respond. */
+  status: number | null;
+  method?: string;
+  endpoint?: string;
+  /** Authentik's messages per field, nested fields as dot paths (`attributes.key`). */
+  field_errors?: Record<string, string[]>;
+  /** Authentik's message that is not about a single field. */
+  detail?: string;
+  hint: string;
+}
+
+/** A call refused by the server's own configuration, e.g. its tool policy. */
+export class PermissionDeniedError extends Error {}
+
+/** A call a tool rejects without asking Authentik, e.g. for contradicting arguments. */
+export class ToolInputError extends Error {}
+
+// Category of each client error status; anything else counts as a server error
+const STATUS_CATEGORIES: Record<number, ErrorCategory> = {
+  400: 'validation',
+  401: 'auth',
+  403: 'permission',
+  404: 'not_found',
+  409: 'conflict',
+  422: 'validation',
+};
+
+// Authentik reports unique constraint violations as 400 with this wording
+const CONFLICT_PATTERN = /already exists|must be unique/i;
+
+// Django permission verb for each method, used in permission hints
+const PERMISSION_VERBS: Record<string, string> = {
+  GET: 'view',
+  HEAD: 'view',
+  OPTIONS: 'view',
+  POST: 'add',
+  PUT: 'change',
+  PATCH: 'change',
+  DELETE: 'delete',
+};
+
+function messagesOf(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((item) => typeof item === 'string');
+  }
+  return typeof value === 'string' ? [value] : [];
+}
+
+// Flatten DRF error bodies: {"name": ["..."], "attributes": {"x": ["..."]}, "items": [{}, {...}]}
+function collectFieldErrors(value: unknown, prefix: string, into: Record<string, string[]>) {
+  if (typeof value !== 'object' || value === null) {
+    return;
+  }
+  const entries = Array.isArray(value)
+    ? value.map((item, index) => [String(index), item] as const)
+    : Object.entries(value);
+  for (const [key, inner] of entries) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const messages = messagesOf(inner);
+    if (messages.length > 0) {
+      into[path] = messages;
+    } else {
+      collectFieldErrors(inner, path, into);
+    }
+  }
+}
+
+function parseResponseBody(data: unknown) {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return {};
+  }
+  const { detail, non_field_errors, ...fields } = data as Record<string, unknown>;
+  const fieldErrors: Record<string, string[]> = {};
+  // `code` accompanies `detail` in some responses and is not a field
+  collectFieldErrors({ ...fields, code: undefined }, '', fieldErrors);
+  const details = [...messagesOf(detail), ...messagesOf(non_field_errors)];
+  return {
+    fieldErrors: Object.keys(fieldErrors).length > 0 ? fieldErrors : undefined,
+    detail: details.length > 0 ? details.join(' ') : undefined,
+  };
+}
+
+// Collection an endpoint belongs to, e.g. "users" for /core/users/42/set_password/
+function resourceOf(endpoint: string): string {
+  const segments = endpoint.split('/').filter(Boolean);
+  return segments[1] ?? segments[0] ?? endpoint;
+}
+
+function classify(status: number, fieldErrors?: Record<string, string[]>): ErrorCategory {
+  const conflicting = Object.values(fieldErrors ?? {}).some((messages) =>
+    messages.some((message) => CONFLICT_PATTERN.test(message))
+  );
+  if (status === 400 && conflicting) {
+    return 'conflict';
+  }
+  return STATUS_CATEGORIES[status] ?? 'server';
+}
+
+function hintFor(details: Omit<ErrorDetails, 'hint'>): string {
+  const target = details.endpoint ? `${details.method} ${details.endpoint}` : 'this call';
+  const fields = Object.keys(details.field_errors ?? {});
+  switch (details.category) {
+    case 'auth':
+      return 'The API token is invalid or expired. Check the configured token (--token, --token-file or AUTHENTIK_TOKEN).';
+    case 'permission':
+      return `The token lacks permission to ${PERMISSION_VERBS[details.method ?? 'GET']} ${resourceOf(details.endpoint ?? '')} (${target}). Grant it to the token's user through a role, or use another token.`;
+    case 'not_found':
+      return `Nothing exists at ${target}. Check the id, slug or UUID, e.g. with the matching list tool.`;
+    case 'conflict':
+      return fields.length > 0
+        ? `An object with the same ${fields.join(', ')} already exists. Choose another value or update the existing object.`
+        : 'The object conflicts with an existing one. Update the existing object instead.';
+    case 'validation':
+      return fields.length > 0
+        ? `Fix ${fields.join(', ')} as described in field_errors and retry.`
+        : 'Check the tool arguments and retry.';
+    case 'server':
+      return details.status === 429
+        ? 'Authentik is rate limiting requests. Wait a moment and retry.'
+        : 'Authentik failed to process the request. Retry later and check the Authentik server logs if it persists.';
+    case 'network':
+      return 'Authentik did not respond. Check the base URL, network access and TLS settings (--no-verify-ssl for self-signed certificates).';
+    case 'internal':
+      return 'The MCP server failed unexpectedly; retrying with other arguments will not help. Check the server logs.';
+  }
+}
+
+/**
+ * Classify a failed tool call. API errors carry the HTTP status, endpoint and
+ * Authentik's per-field messages. Errors raised before any request count as
+ * validation errors when they are about the arguments, anything else as internal.
+ */
+export function describeError(error: unknown): ErrorDetails {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  let details: Omit<ErrorDetails, 'hint'>;
+
+  if (error instanceof ReadOnlyError) {
+    return {
+      error: message,
+      category: 'permission',
+      status: null,
+      hint: 'This instance is read-only. Use a server or instance that allows changes.',
+    };
+  }
+  if (error instanceof PermissionDeniedError) {
+    return {
+      error: message,
+      category: 'permission',
+      status: null,
+      hint: 'The server configuration does not allow this call. Ask its operator to change the setting named in the error.',
+    };
+  }
+
+  if (error instanceof InvalidArgumentsError) {
+    const fieldErrors: Record<string, string[]> = {};
+    for (const issue of error.zodError.issues) {
+      const path = issue.path.length ? issue.path.join('.') : '(root)';
+      fieldErrors[path] = [...(fieldErrors[path] ?? []), issue.message];
+    }
+    details = { error: message, category: 'validation', status: null, field_errors: fieldErrors };
+  } else if (error instanceof ToolInputError) {
+    details = { error: message, category: 'validation', status: null };
+  } else if (error instanceof CircuitOpenError) {
+    details = { error: message, category: 'network', status: null };
+  } else if (isAxiosError(error)) {
+    const method = error.config?.method?.toUpperCase();
+    const url = error.config?.url;
+    const endpoint = url === undefined ? undefined : url.startsWith('/') ? url : `/${url}`;
+    if (isConnectionError(error)) {
+      details = { error: message, category: 'network', status: null, method, endpoint };
+    } else {
+      const status = error.response?.status ?? 0;
+      const { fieldErrors, detail } = parseResponseBody(error.response?.data);
+      const [field, messages] = Object.entries(fieldErrors ?? {})[0] ?? [];
+      const summary = detail ?? (field ? `${field}: ${messages[0]}` : message);
+      details = {
+        error: `${method} ${endpoint} failed with ${status}: ${summary}`,
+        category: classify(status, fieldErrors),
+        status,
+        method,
+        endpoint,
+        ...(fieldErrors ? { field_errors: fieldErrors } : {}),
+        ...(detail ? { detail } : {}),
+      };
+    }
+  } else {
+    details = { error: message, category: 'internal', status: null };
+  }
+
+  return { ...details, hint: hintFor(details) };
+}
+
+/**
+ * The result of a failed tool call: the error message, then the structured
+ * details as JSON so the model can correct its arguments.
+ */
+export function errorResult(error: unknown) {
+  const details = describeError(error);
+  return {
+    content: [
+      { type: 'text' as const, text: `Error: ${details.error}` },
+      { type: 'text' as const, text: JSON.stringify(details, null, 2) },
+    ],
+    isError: true,
+  };
+}
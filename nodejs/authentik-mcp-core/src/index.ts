@@ -0,0 +1,33 @@
+/**
+ * Shared building blocks for the Authentik MCP servers:
+ * - Configuration schema
+ * - Authentik API client
+ * - Retries, concurrency limit and circuit breaker of the client
+ * - Structured, classified error results
+ * - Named instances (several Authentik deployments behind one server)
+ * - Tool arguments: zod helpers, generated input schemas and validation
+ * - Pagination helpers for list tools
+ * - Response shaping (field projection, compact and table output)
+ * - CSV reading and writing for bulk imports and exports
+ * - Tool registry: every tool's arguments, read/write access and handler
+ * - Resources and resource templates, read through the tools
+ * - Resource subscriptions, kept up to date by a background poller
+ * - Runbook prompts, loaded from data files
+ * - stdio and HTTP (Streamable HTTP / SSE) transports
+ */
+
+export * from './config.js';
+export * from './client.js';
+export * from './resilience.js';
+export * from './errors.js';
+export * from './instances.js';
+export * from './tool-args.js';
+export * from './pagination.js';
+export * from './output.js';
+export * from './csv.js';
+export * from './registry.js';
+export * from './tools/index.js';
+export * from './resources.js';
+export * from './subscriptions.js';
+export * from './prompts.js';
+export * from './transport.js';
@@ -0,0 +1,102 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { AuthentikClient } from './client.js';
+import { AuthentikConfigSchema } from './config.js';
+import { ToolInputError } from './errors.js';
+import { compareAcrossInstances, InstanceRegistry } from './instances.js';
+
+function registry(...names: string[]) {
+  return new InstanceRegistry({
+    defaultInstance: names[0],
+    instances: Object.fromEntries(
+      names.map((name) => [
+        name,
+        AuthentikConfigSchema.parse({ baseUrl: `https://${name}.example.com`, token: name }),
+      ])
+    ),
+  });
+}
+
+// Answer the client's GET requests with `object` and its list requests with `bindings`
+function stub(client: AuthentikClient, object: unknown, bindings: unknown[] = []) {
+  jest.spyOn(client, 'request').mockResolvedValue(object);
+  jest.spyOn(client, 'listAll').mockResolvedValue({
+    count: bindings.length,
+    returned: bindings.length,
+    truncated: false,
+    pages_fetched: 1,
+    results: bindings,
+  });
+}
+
+describe('InstanceRegistry.resolveResourceUri', () => {
+  const instances = registry('prod', 'staging');
+
+  it('strips the instance from a namespaced URI', () => {
+    const { client, uri } = instances.resolveResourceUri('authentik://staging/users/5');
+    expect(client).toBe(instances.client('staging'));
+    expect(uri).toBe('authentik://users/5');
+  });
+
+  it('reads URIs without a known instance from the default instance', () => {
+    const { client, uri } = instances.resolveResourceUri('authentik://users/5');
+    expect(client).toBe(instances.client('prod'));
+    expect(uri).toBe('authentik://users/5');
+  });
+
+  it('rejects unknown instance names', () => {
+    expect(() => instances.client('dev')).toThrow(ToolInputError);
+  });
+});
+
+describe('compareAcrossInstances', () => {
+  it('ignores primary keys and UUIDs and reports the remaining differences', async () => {
+    const instances = registry('prod', 'staging');
+    stub(instances.client('prod'), {
+      pk: 'a8b4c1d2-0000-4000-8000-000000000001',
+      name: 'Portal',
+      meta_launch_url: 'https://portal.example.com',
+      policy_engine_mode: 'any',
+    });
+    stub(instances.client('staging'), {
+      pk: 'a8b4c1d2-0000-4000-8000-000000000002',
+      name: 'Portal',
+      meta_launch_url: 'https://portal.staging.example.com',
+      policy_engine_mode: 'any',
+    });
+
+    const result = await compareAcrossInstances(
+      instances,
+      'application',
+      'portal',
+      'prod',
+      'staging'
+    );
+    expect(result.identical).toBe(false);
+    expect(result.differences).toEqual([
+      {
+        field: 'meta_launch_url',
+        prod: 'https://portal.example.com',
+        staging: 'https://portal.staging.example.com',
+      },
+    ]);
+  });
+
+  it('compares the stages bound to a flow in order', async () => {
+    const instances = registry('prod', 'staging');
+    const flow = { pk: 'f', slug: 'login', name: 'Login' };
+    stub(instances.client('prod'), flow, [
+      { order: 10, stage_obj: { name: 'identification' } },
+      { order: 20, stage_obj: { name: 'password' } },
+    ]);
+    stub(instances.client('staging'), flow, [{ order: 10, stage_obj: { name: 'identification' } }]);
+
+    const result = await compareAcrossInstances(instances, 'flow', 'login', 'prod', 'staging');
+    expect(result.differences).toEqual([
+      {
+        field: 'stages',
+        prod: ['10: identification', '20: password'],
+        staging: ['10: identification'],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,184 @@
+import { AuthentikClient } from './client.js';
+import { InstancesConfig } from './config.js';
+import { ToolInputError } from './errors.js';
+import { ToolListing } from './registry.js';
+
+// Values of this shape are per-deployment identifiers and never worth comparing
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Fields that differ between deployments by design
+const INSTANCE_SPECIFIC_FIELDS = ['pk', 'pbm_uuid', 'provider', 'cache_count', 'export_url'];
+
+// Objects authentik_compare_instances can diff, by kind
+export const COMPARE_ENDPOINTS = {
+  application: '/core/applications/',
+  flow: '/flows/instances/',
+} as const;
+
+export type CompareKind = keyof typeof COMPARE_ENDPOINTS;
+
+export const COMPARE_KINDS = Object.keys(COMPARE_ENDPOINTS) as [CompareKind, ...CompareKind[]];
+
+/** The Authentik deployments a server talks to, one client per named instance. */
+export class InstanceRegistry {
+  readonly defaultInstance: string;
+  private clients = new Map<string, AuthentikClient>();
+
+  constructor(private config: InstancesConfig) {
+    this.defaultInstance = config.defaultInstance;
+    for (const [name, instance] of Object.entries(config.instances)) {
+      this.clients.set(name, new AuthentikClient(instance));
+    }
+  }
+
+  get names(): string[] {
+    return [...this.clients.keys()];
+  }
+
+  get isMultiInstance(): boolean {
+    return this.clients.size > 1;
+  }
+
+  /** Client of the named instance, or of the default instance when no name is given. */
+  client(name?: unknown): AuthentikClient {
+    const instance = name === undefined || name === '' ? this.defaultInstance : String(name);
+    const client = this.clients.get(instance);
+    if (!client) {
+      throw new ToolInputError(
+        `Unknown instance: ${instance}. Expected one of ${this.names.join(', ')}`
+      );
+    }
+    return client;
+  }
+
+  entries(): [string, AuthentikClient][] {
+    return [...this.clients.entries()];
+  }
+
+  list() {
+    return Object.entries(this.config.instances).map(([name, instance]) => ({
+      name,
+      base_url: instance.baseUrl,
+      read_only: instance.readOnly,
+      default: name === this.defaultInstance,
+    }));
+  }
+
+  /** Add the optional `instance` argument to a tool's input schema. */
+  withInstanceArgument<T extends ToolListing>(tool: T): T {
+    return {
+      ...tool,
+      inputSchema: {
+        ...tool.inputSchema,
+        properties: {
+          ...tool.inputSchema.properties,
+          instance: {
+            type: 'string',
+            enum: this.names,
+            description: `Authentik instance to use (default: ${this.defaultInstance})`,
+          },
+        },
+      },
+    };
+  }
+
+  /**
+   * A resource for every instance. With a single instance the URI is kept as
+   * it is (`authentik://users`); otherwise it is namespaced per instance
+   * (`authentik://prod/users`).
+   */
+  namespaceResource<T extends { uri: string; name: string }>(resource: T): T[] {
+    if (!this.isMultiInstance) {
+      return [resource];
+    }
+    return this.names.map((instance) => ({
+      ...resource,
+      uri: resource.uri.replace('authentik://', `authentik://${instance}/`),
+      name: `${resource.name} (${instance})`,
+    }));
+  }
+
+  /** Split `authentik://prod/users` into the prod client and `authentik://users`. */
+  resolveResourceUri(uri: string): { client: AuthentikClient; uri: string } {
+    const match = /^authentik:\/\/([^/?]+)\/(.+)$/.exec(uri);
+    if (match && this.clients.has(match[1])) {
+      return { client: this.client(match[1]), uri: `authentik://${match[2]}` };
+    }
+    return { client: this.client(), uri };
+  }
+}
+
+function flatten(value: unknown, prefix = ''): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { [prefix]: value };
+  }
+  return Object.assign(
+    {},
+    ...Object.entries(value)
+      .filter(([key]) => !INSTANCE_SPECIFIC_FIELDS.includes(key))
+      .map(([key, inner]) => flatten(inner, prefix ? `${prefix}.${key}` : key))
+  );
+}
+
+function isIdentifierPair(left: unknown, right: unknown): boolean {
+  return (
+    typeof left === 'string' &&
+    typeof right === 'string' &&
+    UUID_PATTERN.test(left) &&
+    UUID_PATTERN.test(right)
+  );
+}
+
+// The compared view of an object: flows include their stage bindings in order
+async function comparable(client: AuthentikClient, kind: CompareKind, slug: string) {
+  const object = await client.request('GET', `${COMPARE_ENDPOINTS[kind]}${slug}/`);
+  if (kind !== 'flow') {
+    return object;
+  }
+  const bindings = await client.listAll('/flows/bindings/', {
+    target: object.pk,
+    ordering: 'order',
+  });
+  return {
+    ...object,
+    stages: bindings.results.map((binding) => `${binding.order}: ${binding.stage_obj?.name}`),
+  };
+}
+
+/**
+ * Field-by-field diff of an application or flow between two instances.
+ * Primary keys and UUIDs are ignored since they always differ between deployments.
+ */
+export async function compareAcrossInstances(
+  registry: InstanceRegistry,
+  kind: CompareKind,
+  slug: string,
+  sourceInstance: string,
+  targetInstance: string
+) {
+  if (!COMPARE_ENDPOINTS[kind]) {
+    throw new ToolInputError(`Unknown kind: ${kind}. Expected one of ${COMPARE_KINDS.join(', ')}`);
+  }
+  const [source, target] = await Promise.all([
+    comparable(registry.client(sourceInstance), kind, slug).then(flatten),
+    comparable(registry.client(targetInstance), kind, slug).then(flatten),
+  ]);
+
+  const differences = [...new Set([...Object.keys(source), ...Object.keys(target)])]
+    .filter((field) => JSON.stringify(source[field]) !== JSON.stringify(target[field]))
+    .filter((field) => !isIdentifierPair(source[field], target[field]))
+    .map((field) => ({
+      field,
+      [sourceInstance]: source[field] ?? null,
+      [targetInstance]: target[field] ?? null,
+    }));
+
+  return {
+    kind,
+    slug,
+    source: sourceInstance,
+    target: targetInstance,
+    identical: differences.length === 0,
+    differences,
+  };
+}
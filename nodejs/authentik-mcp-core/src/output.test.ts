@@ -0,0 +1,86 @@
+import { describe, expect, it } from '@jest/globals';
+import { ToolInputError } from './errors.js';
+import { formatToolResult, projectFields } from './output.js';
+
+const user = {
+  pk: 1,
+  username: 'alice',
+  name: 'Alice | Admin',
+  email: 'alice@example.com',
+  is_active: true,
+  last_login: null,
+  groups_obj: [{ name: 'Staff' }],
+};
+
+const page = {
+  pagination: { count: 2, current: 1, total_pages: 1 },
+  results: [user, { ...user, pk: 2, username: 'bob', name: 'Bob' }],
+};
+
+describe('projectFields', () => {
+  it('picks dot paths, including array indexes, and fills missing fields with null', () => {
+    expect(projectFields(user, ['username', 'groups_obj.0.name', 'missing.field'])).toEqual({
+      username: 'alice',
+      'groups_obj.0.name': 'Staff',
+      'missing.field': null,
+    });
+  });
+});
+
+describe('formatToolResult', () => {
+  it('returns the full payload as JSON by default', () => {
+    expect(JSON.parse(formatToolResult(page, { resource: 'users' }))).toEqual(page);
+  });
+
+  it('projects every list item on the requested fields', () => {
+    const shaped = JSON.parse(formatToolResult(page, { fields: ['pk', 'username'] }));
+    expect(shaped.pagination).toEqual(page.pagination);
+    expect(shaped.results).toEqual([
+      { pk: 1, username: 'alice' },
+      { pk: 2, username: 'bob' },
+    ]);
+  });
+
+  it('falls back to the default summary fields of the resource for compact output', () => {
+    const text = formatToolResult(user, { output: 'compact', resource: 'users' });
+    expect(text).not.toContain('\n');
+    expect(JSON.parse(text)).toEqual({
+      pk: 1,
+      username: 'alice',
+      name: 'Alice | Admin',
+      email: 'alice@example.com',
+      is_active: true,
+      last_login: null,
+    });
+  });
+
+  it('renders lists as a Markdown table with a page summary', () => {
+    expect(formatToolResult(page, { output: 'table', fields: ['pk', 'name'] })).toBe(
+      [
+        '| pk | name |',
+        '| --- | --- |',
+        '| 1 | Alice \\| Admin |',
+        '| 2 | Bob |',
+        '',
+        'Page 1 of 1 (2 total)',
+      ].join('\n')
+    );
+  });
+
+  it('renders a single object as a field/value table', () => {
+    expect(formatToolResult(user, { output: 'table', fields: ['username', 'last_login'] })).toBe(
+      ['| Field | Value |', '| --- | --- |', '| username | alice |', '| last_login |  |'].join('\n')
+    );
+  });
+
+  it('summarises merged results', () => {
+    const merged = { count: 5, returned: 2, truncated: true, results: page.results };
+    expect(formatToolResult(merged, { output: 'table', fields: ['pk'] })).toMatch(
+      /2 of 5 total \(truncated\)$/
+    );
+  });
+
+  it('rejects unknown output modes', () => {
+    expect(() => formatToolResult(user, { output: 'xml' })).toThrow(ToolInputError);
+  });
+});
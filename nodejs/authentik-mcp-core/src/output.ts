@@ -0,0 +1,160 @@
+import { z } from 'zod';
+import { ToolInputError } from './errors.js';
+
+export const OUTPUT_MODES = ['json', 'compact', 'table'] as const;
+
+export type OutputMode = (typeof OUTPUT_MODES)[number];
+
+export interface OutputOptions {
+  fields?: unknown;
+  output?: unknown;
+  resource?: string;
+}
+
+// Output arguments shared by every get/list tool
+export const outputArgs = {
+  fields: z
+    .array(z.string())
+    .describe('Only return these fields; nested fields use dot paths (e.g. user_obj.username)')
+    .optional(),
+  output: z
+    .enum(OUTPUT_MODES)
+    .describe(
+      'json: full pretty-printed payload; compact: summary fields as minified JSON; table: Markdown table'
+    )
+    .default('json'),
+};
+
+// Fields returned by compact and table output when no fields are requested
+export const DEFAULT_SUMMARY_FIELDS: Record<string, string[]> = {
+  users: ['pk', 'username', 'name', 'email', 'is_active', 'last_login'],
+  groups: ['pk', 'name', 'is_superuser', 'parent_name'],
+  applications: ['pk', 'name', 'slug', 'provider', 'launch_url'],
+  events: ['pk', 'created', 'action', 'user.username', 'client_ip', 'app'],
+  flows: ['pk', 'slug', 'name', 'title', 'designation'],
+  providers: ['pk', 'name', 'verbose_name', 'assigned_application_slug'],
+  tokens: ['identifier', 'intent', 'user_obj.username', 'expiring', 'expires', 'description'],
+  stages: ['pk', 'name', 'verbose_name'],
+  flow_bindings: ['pk', 'target', 'stage_obj.name', 'order'],
+  policies: ['pk', 'name', 'verbose_name', 'bound_to'],
+  policy_bindings: [
+    'pk',
+    'target',
+    'policy_obj.name',
+    'group_obj.name',
+    'user_obj.username',
+    'order',
+    'enabled',
+    'negate',
+  ],
+  property_mappings: ['pk', 'name', 'verbose_name', 'managed'],
+  sources: ['pk', 'name', 'slug', 'verbose_name', 'enabled'],
+  brands: ['brand_uuid', 'domain', 'default', 'branding_title'],
+};
+
+type Item = Record<string, unknown>;
+
+function isItem(value: unknown): value is Item {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function getPath(item: Item, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (Array.isArray(value)) {
+      return value[Number(key)];
+    }
+    return isItem(value) ? value[key] : undefined;
+  }, item);
+}
+
+/** Pick the given (dot-path) fields of an object into a flat object. */
+export function projectFields(item: unknown, fields: string[]): unknown {
+  if (!isItem(item)) {
+    return item;
+  }
+  return Object.fromEntries(fields.map((field) => [field, getPath(item, field) ?? null]));
+}
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function markdownTable(columns: string[], rows: unknown[][]): string {
+  return [
+    `| ${columns.map(formatCell).join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${row.map(formatCell).join(' | ')} |`),
+  ].join('\n');
+}
+
+function listSummary(result: Item): string {
+  if (isItem(result.pagination)) {
+    const { count, current, total_pages } = result.pagination;
+    return `Page ${current} of ${total_pages} (${count} total)`;
+  }
+  if ('count' in result && 'returned' in result) {
+    return `${result.returned} of ${result.count} total${result.truncated ? ' (truncated)' : ''}`;
+  }
+  return '';
+}
+
+/**
+ * Render a tool result as text. Lists are recognised by their `results` array;
+ * `fields` projects every list item (or the object itself), and compact/table
+ * output fall back to the resource's default summary fields.
+ */
+export function formatToolResult(result: unknown, options: OutputOptions = {}): string {
+  const mode = (options.output ?? 'json') as OutputMode;
+  if (!OUTPUT_MODES.includes(mode)) {
+    throw new ToolInputError(
+      `Unknown output mode: ${options.output}. Expected one of ${OUTPUT_MODES.join(', ')}`
+    );
+  }
+
+  const requestedFields = Array.isArray(options.fields) ? options.fields.map(String) : undefined;
+  const summaryFields = options.resource ? DEFAULT_SUMMARY_FIELDS[options.resource] : undefined;
+  const fields = requestedFields?.length
+    ? requestedFields
+    : mode === 'json'
+      ? undefined
+      : summaryFields;
+
+  const isList = isItem(result) && Array.isArray(result.results);
+  let shaped: unknown = result;
+  if (fields && isList) {
+    shaped = {
+      ...(result as Item),
+      results: ((result as Item).results as unknown[]).map((item) => projectFields(item, fields)),
+    };
+  } else if (fields && isItem(result) && !isList) {
+    shaped = projectFields(result, fields);
+  }
+
+  if (mode === 'json') {
+    return JSON.stringify(shaped, null, 2);
+  }
+  if (mode === 'compact') {
+    return JSON.stringify(shaped);
+  }
+
+  if (isList) {
+    const items = (shaped as Item).results as unknown[];
+    const columns = fields ?? [
+      ...new Set(items.filter(isItem).flatMap((item) => Object.keys(item))),
+    ];
+    const table = markdownTable(
+      columns,
+      items.map((item) => columns.map((column) => (isItem(item) ? item[column] : item)))
+    );
+    const summary = listSummary(result as Item);
+    return summary ? `${table}\n\n${summary}` : table;
+  }
+  if (isItem(shaped)) {
+    return markdownTable(['Field', 'Value'], Object.entries(shaped));
+  }
+  return JSON.stringify(shaped);
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { z } from 'zod';
+import { AuthentikClient } from './client.js';
+import { listWithPagination, MAX_FETCH_ALL_ITEMS, paginationArgs } from './pagination.js';
+
+const args = z.object(paginationArgs);
+
+// A client whose list endpoint holds `total` items
+function fakeClient(total: number) {
+  const client = Object.create(AuthentikClient.prototype) as AuthentikClient;
+  const request = jest.fn(
+    async (_method: string, _endpoint: string, _body?: unknown, params?: any) => {
+      const start = (params.page - 1) * params.page_size;
+      const results = Array.from(
+        { length: Math.max(0, Math.min(params.page_size, total - start)) },
+        (_, index) => start + index
+      );
+      const next = start + params.page_size < total ? params.page + 1 : 0;
+      return { pagination: { count: total, next }, results };
+    }
+  );
+  client.request = request as unknown as AuthentikClient['request'];
+  return { client, request };
+}
+
+const pageSizes = (request: ReturnType<typeof fakeClient>['request']) =>
+  request.mock.calls.map(([, , , params]) => (params as any).page_size);
+
+describe('listWithPagination', () => {
+  it('returns a single page with the requested page size', async () => {
+    const { client, request } = fakeClient(50);
+    const page: any = await listWithPagination(client, '/core/users/', args.parse({ page: 2 }));
+    expect(page.results).toHaveLength(20);
+    expect(request).toHaveBeenCalledWith('GET', '/core/users/', undefined, {
+      page: 2,
+      page_size: 20,
+    });
+  });
+
+  it('fetches full pages for fetch_all regardless of the default page_size', async () => {
+    const { client, request } = fakeClient(250);
+    const merged: any = await listWithPagination(
+      client,
+      '/core/users/',
+      args.parse({ fetch_all: true })
+    );
+    expect(pageSizes(request)).toEqual([100, 100, 100]);
+    expect(merged).toMatchObject({ count: 250, returned: 250, truncated: false, pages_fetched: 3 });
+  });
+
+  it('stops at max_items and reports the truncation', async () => {
+    const { client, request } = fakeClient(250);
+    const merged: any = await listWithPagination(
+      client,
+      '/core/users/',
+      args.parse({ max_items: 30, page_size: 5 })
+    );
+    expect(pageSizes(request)).toEqual([30]);
+    expect(merged).toMatchObject({ returned: 30, truncated: true });
+  });
+
+  it('starts at the first item of the requested page', async () => {
+    const { client } = fakeClient(250);
+    const merged: any = await listWithPagination(
+      client,
+      '/core/users/',
+      args.parse({ page: 3, max_items: 50 })
+    );
+    expect(merged.results[0]).toBe(40);
+    expect(merged.results).toHaveLength(50);
+
+    const rest: any = await listWithPagination(
+      client,
+      '/core/users/',
+      args.parse({ page: 2, page_size: 30, fetch_all: true })
+    );
+    expect(rest).toMatchObject({ returned: 220, truncated: false });
+    expect(rest.results[0]).toBe(30);
+  });
+
+  it(`never returns more than ${MAX_FETCH_ALL_ITEMS} items`, async () => {
+    const { client } = fakeClient(5000);
+    const merged: any = await listWithPagination(
+      client,
+      '/core/users/',
+      args.parse({ max_items: 10_000 })
+    );
+    expect(merged.results).toHaveLength(MAX_FETCH_ALL_ITEMS);
+  });
+});
@@ -0,0 +1,39 @@
+import { AuthentikClient } from './client.js';
+import { booleanArg, integerArg } from './tool-args.js';
+
+// Hard limit on the number of items a single fetch_all call may return
+export const MAX_FETCH_ALL_ITEMS = 1000;
+
+// Pagination arguments shared by every list tool
+export const paginationArgs = {
+  page: integerArg().describe('Page number').default(1),
+  page_size: integerArg().describe('Number of items per page').default(20),
+  fetch_all: booleanArg()
+    .describe(`Follow all pages and return merged results (at most ${MAX_FETCH_ALL_ITEMS} items)`)
+    .default(false),
+  max_items: integerArg()
+    .describe('Follow pages until this many items have been collected')
+    .optional(),
+};
+
+/**
+ * Run a list request for a tool call. Without `fetch_all` or `max_items` a single
+ * page is returned as-is; otherwise pages are merged up to the requested limit.
+ */
+export async function listWithPagination(
+  client: AuthentikClient,
+  endpoint: string,
+  args: Record<string, unknown> = {}
+) {
+  const { fetch_all, max_items, ...params } = args;
+
+  if (!fetch_all && max_items === undefined) {
+    return client.request('GET', endpoint, undefined, params);
+  }
+
+  const maxItems = Math.min(
+    max_items === undefined ? MAX_FETCH_ALL_ITEMS : Number(max_items),
+    MAX_FETCH_ALL_ITEMS
+  );
+  return client.listAll(endpoint, params, maxItems);
+}
@@ -0,0 +1,113 @@
+import { afterAll, beforeAll, describe, expect, it, jest } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ConfigError } from './config.js';
+import { InstanceRegistry } from './instances.js';
+import { loadPrompts, PromptDefinitionSchema, PromptRegistry } from './prompts.js';
+import { ResourceRegistry } from './resources.js';
+import { TOOLS } from './tools/index.js';
+
+let dir: string;
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), 'authentik-prompts-'));
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const lockout = PromptDefinitionSchema.parse({
+  name: 'lockout',
+  description: 'Help a locked out user',
+  arguments: [
+    { name: 'user_id', required: true },
+    { name: 'days', default: '7' },
+  ],
+  tools: ['authentik_get_user', 'authentik_list_events'],
+  resources: ['authentik://users/{user_id}'],
+  instructions: 'Check `authentik_get_user` and `authentik_list_events` of the last {days} days',
+});
+
+describe('loadPrompts', () => {
+  it('lists every tool the built-in prompts call, and only existing ones', () => {
+    const names = new Set(TOOLS.map(({ name }) => name));
+    const prompts = loadPrompts();
+    expect(prompts.length).toBeGreaterThan(0);
+    for (const prompt of prompts) {
+      expect(prompt.tools.filter((tool) => !names.has(tool))).toEqual([]);
+    }
+  });
+
+  it('lets a prompts directory replace built-in prompts', () => {
+    const [builtin] = loadPrompts();
+    writeFileSync(
+      join(dir, 'custom.yaml'),
+      `name: ${builtin.name}\ndescription: Replaced\ninstructions: Do it\n`
+    );
+    const prompts = loadPrompts(dir);
+    expect(prompts.filter(({ name }) => name === builtin.name)).toEqual([
+      expect.objectContaining({ description: 'Replaced' }),
+    ]);
+    rmSync(join(dir, 'custom.yaml'));
+  });
+
+  it('rejects prompt files whose instructions call tools they do not list', () => {
+    writeFileSync(
+      join(dir, 'broken.json'),
+      JSON.stringify({
+        name: 'broken',
+        description: 'Broken',
+        tools: ['authentik_get_user'],
+        instructions: 'Run `authentik_get_user`, then `authentik_delete_user`',
+      })
+    );
+    expect(() => loadPrompts(dir)).toThrow(ConfigError);
+    expect(() => loadPrompts(dir)).toThrow(
+      'tools: Missing tools the instructions call: authentik_delete_user'
+    );
+    rmSync(join(dir, 'broken.json'));
+  });
+});
+
+describe('PromptRegistry', () => {
+  const instances = {} as InstanceRegistry;
+
+  function registry(offered: string[]) {
+    const read = jest.fn(async (uri: string, _instances: InstanceRegistry) => ({
+      contents: [{ uri, mimeType: 'application/json', text: '{}' }],
+    }));
+    const resources = { read } as unknown as ResourceRegistry;
+    return {
+      prompts: new PromptRegistry([lockout], resources, (tool) => offered.includes(tool)),
+      read,
+    };
+  }
+
+  it('offers only prompts whose tools are all offered', () => {
+    expect(registry(['authentik_get_user']).prompts.list()).toEqual([]);
+    expect(
+      registry(['authentik_get_user', 'authentik_list_events'])
+        .prompts.list()
+        .map(({ name }) => name)
+    ).toEqual(['lockout']);
+  });
+
+  it('fills in arguments and defaults and attaches the resources', async () => {
+    const { prompts, read } = registry(['authentik_get_user', 'authentik_list_events']);
+    const { messages } = await prompts.get('lockout', { user_id: 'a b' }, instances);
+    expect(read).toHaveBeenCalledWith('authentik://users/a%20b', instances);
+    expect(messages.at(-1)?.content).toEqual({
+      type: 'text',
+      text: 'Check `authentik_get_user` and `authentik_list_events` of the last 7 days',
+    });
+  });
+
+  it('requires the required arguments', async () => {
+    const { prompts } = registry(['authentik_get_user', 'authentik_list_events']);
+    await expect(prompts.get('lockout', {}, instances)).rejects.toThrow(
+      'Missing arguments for prompt lockout: user_id'
+    );
+  });
+});
@@ -0,0 +1,173 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { extname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { load as loadYaml } from 'js-yaml';
+import { z } from 'zod';
+import { ConfigError, formatZodError } from './config.js';
+import { InstanceRegistry } from './instances.js';
+import { ResourceRegistry } from './resources.js';
+
+// Runbook prompts shipped with this package, one data file each
+const BUILTIN_PROMPTS_DIR = fileURLToPath(new URL('../prompts/', import.meta.url));
+
+const PROMPT_FILE_EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+// Tools named in instructions, e.g. `authentik_get_user`
+function toolsCalledBy(instructions: string): string[] {
+  return [...new Set([...instructions.matchAll(/`(authentik_\w+)`/g)].map(([, tool]) => tool))];
+}
+
+/** A prompt data file. `{argument}` placeholders in `resources` and `instructions` are filled in. */
+export const PromptDefinitionSchema = z
+  .object({
+    name: z.string().regex(/^[a-z0-9_-]+$/, 'Use lowercase letters, digits, _ and -'),
+    title: z.string().optional(),
+    description: z.string(),
+    arguments: z
+      .array(
+        z.object({
+          name: z.string(),
+          description: z.string().optional(),
+          required: z.boolean().default(false),
+          /** Value used when an optional argument is not given */
+          default: z.string().optional(),
+        })
+      )
+      .default([]),
+    /** Tools the instructions call; the prompt is only offered when the server offers all of them */
+    tools: z.array(z.string()).default([]),
+    /** Resources attached to the prompt, e.g. `authentik://users/{user_id}` */
+    resources: z.array(z.string()).default([]),
+    instructions: z.string(),
+  })
+  .superRefine((prompt, context) => {
+    const missing = toolsCalledBy(prompt.instructions).filter(
+      (tool) => !prompt.tools.includes(tool)
+    );
+    if (missing.length > 0) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['tools'],
+        message: `Missing tools the instructions call: ${missing.join(', ')}`,
+      });
+    }
+  });
+
+export type PromptDefinition = z.infer<typeof PromptDefinitionSchema>;
+
+function readPromptFile(path: string): PromptDefinition {
+  let content: unknown;
+  try {
+    content = loadYaml(readFileSync(path, 'utf8'));
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new ConfigError(`Cannot read prompt file ${path}: ${message}`);
+  }
+  const parsed = PromptDefinitionSchema.safeParse(content);
+  if (!parsed.success) {
+    throw new ConfigError(`Invalid prompt file ${path}:\n${formatZodError(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+/** Every YAML or JSON prompt file in a directory. */
+export function readPromptDir(dir: string): PromptDefinition[] {
+  let files: string[];
+  try {
+    files = readdirSync(dir);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new ConfigError(`Cannot read prompts directory ${dir}: ${message}`);
+  }
+  return files
+    .filter((file) => PROMPT_FILE_EXTENSIONS.includes(extname(file)))
+    .sort()
+    .map((file) => readPromptFile(join(dir, file)));
+}
+
+/** Built-in prompts plus those in `dir` (--prompts-dir), replacing built-ins of the same name. */
+export function loadPrompts(dir?: string): PromptDefinition[] {
+  const prompts = [...readPromptDir(BUILTIN_PROMPTS_DIR), ...(dir ? readPromptDir(dir) : [])];
+  return [...new Map(prompts.map((prompt) => [prompt.name, prompt])).values()];
+}
+
+function fill(
+  template: string,
+  values: Record<string, string>,
+  encode: (value: string) => string = (value) => value
+): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in values ? encode(values[name]) : placeholder
+  );
+}
+
+/** The prompts of one server, with their resources read through its resource registry. */
+export class PromptRegistry {
+  constructor(
+    readonly prompts: PromptDefinition[],
+    private resources: ResourceRegistry,
+    /** Whether the server currently offers a tool */
+    private offers: (tool: string) => boolean
+  ) {}
+
+  /** Prompts whose tools are all offered, as advertised by prompts/list. */
+  list() {
+    return this.available().map(({ name, title, description, arguments: args }) => ({
+      name,
+      title,
+      description,
+      arguments: args.map(({ name, description, required }) => ({ name, description, required })),
+    }));
+  }
+
+  /** The prompt's attached resources followed by its instructions. */
+  async get(name: string, args: Record<string, string> = {}, instances: InstanceRegistry) {
+    const prompt = this.available().find((candidate) => candidate.name === name);
+    if (!prompt) {
+      throw new Error(`Unknown prompt: ${name}`);
+    }
+    const missing = prompt.arguments.filter(({ name, required }) => required && !args[name]);
+    if (missing.length > 0) {
+      throw new Error(
+        `Missing arguments for prompt ${name}: ${missing.map(({ name }) => name).join(', ')}`
+      );
+    }
+    const values = Object.fromEntries(
+      prompt.arguments.map(({ name, default: fallback }) => [name, args[name] || fallback || ''])
+    );
+
+    const attachments = await Promise.all(
+      prompt.resources.map((uri) => this.attach(fill(uri, values, encodeURIComponent), instances))
+    );
+    return {
+      description: prompt.description,
+      messages: [
+        ...attachments,
+        {
+          role: 'user' as const,
+          content: { type: 'text' as const, text: fill(prompt.instructions, values) },
+        },
+      ],
+    };
+  }
+
+  private available(): PromptDefinition[] {
+    return this.prompts.filter((prompt) => prompt.tools.every((tool) => this.offers(tool)));
+  }
+
+  // A resource that cannot be read is mentioned instead, so the prompt still works
+  private async attach(uri: string, instances: InstanceRegistry) {
+    try {
+      const {
+        contents: [resource],
+      } = await this.resources.read(uri, instances);
+      return { role: 'user' as const, content: { type: 'resource' as const, resource } };
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        role: 'user' as const,
+        content: { type: 'text' as const, text: `Could not load ${uri}: ${message}` },
+      };
+    }
+  }
+}
@@ -0,0 +1,160 @@
+import { AuthentikClient } from './client.js';
+import { InstanceRegistry } from './instances.js';
+import { listWithPagination } from './pagination.js';
+import { ToolArgs, ToolInputSchema, toolInputSchema } from './tool-args.js';
+
+/**
+ * `read` tools only send GET requests, so the read-only diagnostic server can
+ * offer them; `write` tools change Authentik or trigger actions in it.
+ */
+export type ToolAccess = 'read' | 'write';
+
+/** Validated arguments of a tool call, without the instance and output arguments. */
+export type ToolCallArgs = Record<string, any>;
+
+export interface ToolContext {
+  /** Client of the instance the call is for */
+  client: AuthentikClient;
+  instances: InstanceRegistry;
+  tool: ToolDefinition;
+  /** Whether tools may reveal token secrets (--allow-token-key-view) */
+  allowTokenKeyView?: boolean;
+}
+
+/** What a mutating tool is about to do, as far as a preview can tell. */
+export interface MutationPlan {
+  action: 'create' | 'update' | 'delete' | 'action';
+  /** Endpoint of the object the tool changes, fetched to show its current state. */
+  endpoint?: string;
+  /** Fields the tool sets; computed from the current object when it depends on it. */
+  changes?: Record<string, unknown> | ((current: any) => Record<string, unknown>);
+  summary?: string;
+  /** Findings only the tool itself can work out, e.g. the validation of each imported row */
+  report?: unknown;
+  /** Why the change cannot be made as planned; such a preview comes without a confirmation token */
+  blocked?: string;
+}
+
+export type ToolHandler = (args: ToolCallArgs, context: ToolContext) => Promise<unknown>;
+
+export type MutationPlanner = (
+  args: ToolCallArgs,
+  context: ToolContext
+) => MutationPlan | Promise<MutationPlan>;
+
+/** Everything a server needs to know about one tool. */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  access: ToolAccess;
+  args: ToolArgs;
+  /** Collection endpoint the tool works on, e.g. `/core/users/` */
+  endpoint?: string;
+  /** Resource kind, for the default summary fields of compact and table output */
+  resource?: string;
+  handler: ToolHandler;
+  /**
+   * Preview for dry_run and --require-confirmation; the write server previews
+   * `write` tools without one as the call they would make
+   */
+  plan?: MutationPlanner;
+  /** Whether the write server asks for a confirmation token even without --require-confirmation */
+  alwaysConfirm?: boolean;
+  /** Earlier names the tool still answers to; they are not listed */
+  aliases?: string[];
+  /** Whether the tool works across instances and takes no instance argument */
+  crossInstance?: boolean;
+}
+
+/** The tools of one server, looked up by name or alias. */
+export class ToolRegistry {
+  constructor(readonly tools: ToolDefinition[]) {}
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.find((tool) => tool.name === name || tool.aliases?.includes(name));
+  }
+
+  /** Only the `read` tools, for servers that must not change anything. */
+  readOnly(): ToolRegistry {
+    return new ToolRegistry(this.tools.filter((tool) => tool.access === 'read'));
+  }
+}
+
+/** A tool as advertised by tools/list. */
+export interface ToolListing {
+  name: string;
+  description: string;
+  inputSchema: ToolInputSchema;
+}
+
+export function describeTool({ name, description, args }: ToolDefinition): ToolListing {
+  return { name, description, inputSchema: toolInputSchema(args) };
+}
+
+function endpointOf(tool: ToolDefinition): string {
+  if (!tool.endpoint) {
+    throw new Error(`Tool ${tool.name} has no endpoint`);
+  }
+  return tool.endpoint;
+}
+
+// Handlers of the plain list/get/create/update/delete tools, working on the tool's endpoint
+
+export const listObjects =
+  (defaults: Record<string, unknown> = {}): ToolHandler =>
+  (args, { client, tool }) =>
+    listWithPagination(client, endpointOf(tool), { ...defaults, ...args });
+
+export const getObject =
+  (idKey: string): ToolHandler =>
+  (args, { client, tool }) =>
+    client.request('GET', `${endpointOf(tool)}${args[idKey]}/`);
+
+// The same for families of objects (providers, policies, ...) whose type-specific fields are
+// only returned by the endpoint of their type, used when the call names a type
+
+export const listObjectsOfType =
+  (endpoints: Record<string, string>, typeKey: string): ToolHandler =>
+  ({ [typeKey]: type, ...args }, { client, tool }) =>
+    listWithPagination(client, type ? endpoints[type] : endpointOf(tool), args);
+
+export const getObjectOfType =
+  (endpoints: Record<string, string>, typeKey: string, idKey: string): ToolHandler =>
+  (args, { client, tool }) => {
+    const endpoint = args[typeKey] ? endpoints[args[typeKey]] : endpointOf(tool);
+    return client.request('GET', `${endpoint}${args[idKey]}/`);
+  };
+
+export const createObject =
+  (): ToolHandler =>
+  (args, { client, tool }) =>
+    client.request('POST', endpointOf(tool), args);
+
+export const updateObject =
+  (idKey: string): ToolHandler =>
+  (args, { client, tool }) => {
+    const { [idKey]: id, ...changes } = args;
+    return client.request('PATCH', `${endpointOf(tool)}${id}/`, changes);
+  };
+
+export const deleteObject =
+  (idKey: string, label: string): ToolHandler =>
+  async (args, { client, tool }) => {
+    await client.request('DELETE', `${endpointOf(tool)}${args[idKey]}/`);
+    return { message: `${label} ${args[idKey]} deleted successfully` };
+  };
+
+// Previews of the same tools
+
+export const planCreate = (): MutationPlanner => () => ({ action: 'create' });
+
+export const planUpdate =
+  (idKey: string): MutationPlanner =>
+  (args, { tool }) => {
+    const { [idKey]: id, ...changes } = args;
+    return { action: 'update', endpoint: `${endpointOf(tool)}${id}/`, changes };
+  };
+
+export const planDelete =
+  (idKey: string): MutationPlanner =>
+  (args, { tool }) => ({ action: 'delete', endpoint: `${endpointOf(tool)}${args[idKey]}/` });
@@ -0,0 +1,105 @@
+import { describe, expect, it } from '@jest/globals';
+import { AxiosError, AxiosResponse } from 'axios';
+import { CircuitBreaker, CircuitOpenError, ConcurrencyLimiter, retryDelay } from './resilience.js';
+
+function httpError(status: number, headers: Record<string, string> = {}) {
+  const response = { status, headers, data: {}, statusText: '', config: {} } as AxiosResponse;
+  return new AxiosError(
+    `Request failed with status code ${status}`,
+    undefined,
+    undefined,
+    {},
+    response
+  );
+}
+
+const connectionError = () => new AxiosError('connect ECONNREFUSED', 'ECONNREFUSED');
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('retryDelay', () => {
+  it('retries idempotent methods on connection errors and 502/503/504', () => {
+    for (const error of [connectionError(), httpError(502), httpError(503), httpError(504)]) {
+      expect(retryDelay('GET', error, 0, 100)).not.toBeNull();
+      expect(retryDelay('DELETE', error, 0, 100)).not.toBeNull();
+    }
+  });
+
+  it('retries other methods only on 429', () => {
+    expect(retryDelay('POST', connectionError(), 0, 100)).toBeNull();
+    expect(retryDelay('PATCH', httpError(503), 0, 100)).toBeNull();
+    expect(retryDelay('POST', httpError(429), 0, 100)).not.toBeNull();
+  });
+
+  it('never retries client errors or unknown errors', () => {
+    expect(retryDelay('GET', httpError(400), 0, 100)).toBeNull();
+    expect(retryDelay('GET', httpError(404), 0, 100)).toBeNull();
+    expect(retryDelay('GET', new TypeError('bug'), 0, 100)).toBeNull();
+  });
+
+  it('backs off exponentially with jitter up to the ceiling', () => {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const delay = retryDelay('GET', httpError(502), attempt, 100);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(100 * 2 ** attempt);
+    }
+    expect(retryDelay('GET', httpError(502), 20, 100)).toBeLessThanOrEqual(30_000);
+  });
+
+  it('follows Retry-After on 429 and 503 unless it is too long', () => {
+    expect(retryDelay('POST', httpError(429, { 'retry-after': '2' }), 0, 100)).toBe(2000);
+    expect(retryDelay('GET', httpError(503, { 'retry-after': '1' }), 0, 100)).toBe(1000);
+    expect(retryDelay('GET', httpError(429, { 'retry-after': '3600' }), 0, 100)).toBeNull();
+  });
+});
+
+describe('ConcurrencyLimiter', () => {
+  it('keeps at most max tasks in flight and runs them all', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    let active = 0;
+    let peak = 0;
+    const results = await Promise.all(
+      [1, 2, 3, 4, 5].map((value) =>
+        limiter.run(async () => {
+          active++;
+          peak = Math.max(peak, active);
+          await sleep(5);
+          active--;
+          return value;
+        })
+      )
+    );
+    expect(results).toEqual([1, 2, 3, 4, 5]);
+    expect(peak).toBe(2);
+  });
+
+  it('frees the slot of a failed task', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    await expect(limiter.run(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    await expect(limiter.run(async () => 'next')).resolves.toBe('next');
+  });
+});
+
+describe('CircuitBreaker', () => {
+  it('opens after threshold consecutive failures and closes on success', async () => {
+    const breaker = new CircuitBreaker('prod', 2, 30);
+    breaker.recordFailure();
+    expect(() => breaker.check()).not.toThrow();
+    breaker.recordFailure();
+    expect(() => breaker.check()).toThrow(CircuitOpenError);
+
+    await sleep(40);
+    expect(() => breaker.check()).not.toThrow();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    expect(() => breaker.check()).not.toThrow();
+  });
+
+  it('never opens with a threshold of 0', () => {
+    const breaker = new CircuitBreaker('prod', 0, 1000);
+    for (let i = 0; i < 10; i++) {
+      breaker.recordFailure();
+    }
+    expect(() => breaker.check()).not.toThrow();
+  });
+});
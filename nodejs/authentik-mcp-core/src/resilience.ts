@@ -0,0 +1,140 @@
+import { isAxiosError } from 'axios';
+
+// Methods that can be sent again without changing the outcome
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+// Statuses worth retrying for idempotent methods; 429 is retried for every method
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+
+// Upper bound for a single backoff delay and for a Retry-After we are willing to wait for
+const MAX_RETRY_DELAY_MS = 30_000;
+const MAX_RETRY_AFTER_MS = 60_000;
+
+export class CircuitOpenError extends Error {}
+
+/** Whether the request never got a response (refused, reset, timed out, DNS, ...). */
+export function isConnectionError(error: unknown): boolean {
+  return isAxiosError(error) && !error.response;
+}
+
+function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== 'string' || value === '') {
+    return null;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Delay before retrying a failed request, or null when it must not be retried.
+ * Idempotent methods are retried on connection errors and 429/502/503/504;
+ * other methods only on 429, which Authentik sends before doing any work.
+ * A `Retry-After` header on 429/503 takes precedence over exponential backoff
+ * with full jitter.
+ */
+export function retryDelay(
+  method: string,
+  error: unknown,
+  attempt: number,
+  baseDelayMs: number
+): number | null {
+  const status = isAxiosError(error) ? error.response?.status : undefined;
+  const idempotent = IDEMPOTENT_METHODS.includes(method);
+  const retryable =
+    status === 429 ||
+    (idempotent && (isConnectionError(error) || RETRYABLE_STATUSES.includes(status ?? 0)));
+  if (!retryable) {
+    return null;
+  }
+
+  if (status === 429 || status === 503) {
+    const retryAfter = parseRetryAfter(
+      isAxiosError(error) ? error.response?.headers['retry-after'] : undefined
+    );
+    if (retryAfter !== null) {
+      return retryAfter <= MAX_RETRY_AFTER_MS ? retryAfter : null;
+    }
+  }
+  const ceiling = Math.min(MAX_RETRY_DELAY_MS, baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/** Caps the number of requests in flight; further requests wait for a free slot. */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(
+    private max: number,
+    private log: (message: string) => void = () => {}
+  ) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.max) {
+      this.log(`waiting for a request slot (${this.active} of ${this.max} in flight)`);
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    } else {
+      this.active++;
+    }
+    try {
+      return await task();
+    } finally {
+      // Hand the slot straight to the next waiting request, if any
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+}
+
+/**
+ * Fails fast after `threshold` consecutive connection errors, for `cooldownMs`.
+ * The first request after the cool-down goes through; another connection error
+ * opens the circuit again, any response closes it.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openUntil = 0;
+
+  constructor(
+    private name: string,
+    private threshold: number,
+    private cooldownMs: number,
+    private log: (message: string) => void = () => {}
+  ) {}
+
+  check() {
+    const remaining = this.openUntil - Date.now();
+    if (remaining > 0) {
+      throw new CircuitOpenError(
+        `${this.name} is unreachable after ${this.failures} consecutive connection errors; ` +
+          `failing fast for another ${Math.ceil(remaining / 1000)}s`
+      );
+    }
+  }
+
+  recordSuccess() {
+    if (this.failures >= this.threshold && this.threshold > 0) {
+      this.log(`circuit closed for ${this.name}`);
+    }
+    this.failures = 0;
+    this.openUntil = 0;
+  }
+
+  recordFailure() {
+    this.failures++;
+    if (this.threshold > 0 && this.failures >= this.threshold) {
+      this.openUntil = Date.now() + this.cooldownMs;
+      this.log(
+        `circuit open for ${this.name} for ${this.cooldownMs / 1000}s after ${this.failures} connection errors`
+      );
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { AuthentikConfigSchema } from './config.js';
+import { InstanceRegistry } from './instances.js';
+import { ToolRegistry } from './registry.js';
+import { ResourceRegistry, RESOURCES } from './resources.js';
+import { TOOLS } from './tools/index.js';
+
+// Two instances whose API answers every request with a page that has a next page
+function setup(tools = new ToolRegistry(TOOLS)) {
+  const instances = new InstanceRegistry({
+    defaultInstance: 'prod',
+    instances: Object.fromEntries(
+      ['prod', 'staging'].map((name) => [
+        name,
+        AuthentikConfigSchema.parse({ baseUrl: `https://${name}.example.com`, token: name }),
+      ])
+    ),
+  });
+  const request = jest
+    .spyOn(instances.client('staging'), 'request')
+    .mockResolvedValue({ pagination: { next: 3 }, results: [] });
+  return { resources: new ResourceRegistry(RESOURCES, tools), instances, request };
+}
+
+async function read(resources: ResourceRegistry, instances: InstanceRegistry, uri: string) {
+  const { contents } = await resources.read(uri, instances);
+  return JSON.parse(contents[0].text);
+}
+
+describe('ResourceRegistry', () => {
+  it('reads templates with their parameters through the tool', async () => {
+    const { resources, instances, request } = setup();
+    await read(resources, instances, 'authentik://staging/users/42');
+    expect(request).toHaveBeenCalledWith('GET', '/core/users/42/');
+
+    await read(resources, instances, 'authentik://staging/events?action=login_failed');
+    expect(request).toHaveBeenLastCalledWith('GET', '/events/events/', undefined, {
+      action: 'login_failed',
+      ordering: '-created',
+      page: 1,
+      page_size: 100,
+    });
+  });
+
+  it('reads the page a cursor selects and links the next one', async () => {
+    const { resources, instances, request } = setup();
+    const page = await read(resources, instances, 'authentik://staging/users?cursor=2');
+    expect(request).toHaveBeenCalledWith('GET', '/core/users/', undefined, {
+      page: 2,
+      page_size: 100,
+    });
+    expect(page).toMatchObject({
+      next_cursor: '3',
+      next_uri: 'authentik://staging/users?cursor=3',
+    });
+  });
+
+  it('answers to the aliases of a resource', async () => {
+    const { resources, instances, request } = setup();
+    await read(resources, instances, 'authentik://staging/groups/info');
+    expect(request).toHaveBeenCalledWith('GET', '/core/groups/', undefined, {
+      page: 1,
+      page_size: 100,
+    });
+  });
+
+  it.each([
+    'authentik://users/42/extra',
+    'authentik://users?page=2',
+    'authentik://users/42?cursor=2',
+    'authentik://events?kind=login',
+  ])('rejects %s', async (uri) => {
+    const { resources, instances } = setup();
+    await expect(resources.read(uri, instances)).rejects.toThrow('Unknown resource');
+  });
+
+  it('neither lists nor reads resources whose tool is not offered', async () => {
+    const tools = new ToolRegistry(TOOLS.filter(({ name }) => name !== 'authentik_list_users'));
+    const { resources, instances } = setup(tools);
+    expect(resources.listResources(null).map(({ uri }) => uri)).not.toContain('authentik://users');
+    expect(resources.offers('authentik://users')).toBe(false);
+    await expect(resources.read('authentik://staging/users', instances)).rejects.toThrow(
+      'not offered'
+    );
+  });
+});
@@ -0,0 +1,287 @@
+import { createHash } from 'node:crypto';
+import { InstanceRegistry } from './instances.js';
+import { ToolCallArgs, ToolDefinition, ToolRegistry } from './registry.js';
+import { parseToolArguments } from './tool-args.js';
+
+// Items per page of a list resource; the next page is read with the returned cursor
+const RESOURCE_PAGE_SIZE = 100;
+
+const MIME_TYPE = 'application/json';
+
+/** A resource whose content is the result of a read tool. */
+export interface ResourceDefinition {
+  /** Fixed URI, or URI template with `{name}` parameters such as `authentik://users/{id}` */
+  uri: string;
+  name: string;
+  description: string;
+  /** Read tool returning the content */
+  tool: string;
+  /** Tool arguments for the parameters of a template */
+  args?: (params: Record<string, string>) => ToolCallArgs;
+  /** Whether the content is one page of a list, selected with the `cursor` query parameter */
+  paginated?: boolean;
+  /** Earlier URIs the resource still answers to; they are not listed */
+  aliases?: string[];
+  /** What subscriptions compare to detect a change; the whole content by default */
+  changeMarker?: (content: any) => unknown;
+}
+
+// Events are listed newest first, so only the newest one tells whether there are new events
+const newestEvent = (content: any) => content.results?.[0]?.created ?? null;
+
+/** Resources of both servers; templates are listed by resources/templates/list. */
+export const RESOURCES: ResourceDefinition[] = [
+  {
+    uri: 'authentik://users',
+    name: 'Users',
+    description: 'Authentik users, one page at a time',
+    tool: 'authentik_list_users',
+    paginated: true,
+    aliases: ['authentik://users/info'],
+  },
+  {
+    uri: 'authentik://groups',
+    name: 'Groups',
+    description: 'Authentik groups, one page at a time',
+    tool: 'authentik_list_groups',
+    paginated: true,
+    aliases: ['authentik://groups/info'],
+  },
+  {
+    uri: 'authentik://applications',
+    name: 'Applications',
+    description: 'Authentik applications, one page at a time',
+    tool: 'authentik_list_applications',
+    paginated: true,
+    aliases: ['authentik://applications/status'],
+  },
+  {
+    uri: 'authentik://events',
+    name: 'Events',
+    description: 'Authentik system events and audit logs, newest first',
+    tool: 'authentik_list_events',
+    paginated: true,
+    changeMarker: newestEvent,
+  },
+  {
+    uri: 'authentik://flows',
+    name: 'Flows',
+    description: 'Authentik authentication flows, one page at a time',
+    tool: 'authentik_list_flows',
+    paginated: true,
+    aliases: ['authentik://flows/status'],
+  },
+  {
+    uri: 'authentik://providers',
+    name: 'Providers',
+    description: 'Authentik providers, one page at a time',
+    tool: 'authentik_list_providers',
+    paginated: true,
+  },
+  {
+    uri: 'authentik://brands',
+    name: 'Brands',
+    description: 'Authentik brands (tenants), one page at a time',
+    tool: 'authentik_list_brands',
+    paginated: true,
+  },
+  {
+    uri: 'authentik://system/health',
+    name: 'System Health',
+    description: 'System configuration of the Authentik instance',
+    tool: 'authentik_get_system_config',
+  },
+  {
+    uri: 'authentik://users/{id}',
+    name: 'User',
+    description: 'A single user, by ID',
+    tool: 'authentik_get_user',
+    args: ({ id }) => ({ user_id: id }),
+  },
+  {
+    uri: 'authentik://groups/{id}',
+    name: 'Group',
+    description: 'A single group, by ID',
+    tool: 'authentik_get_group',
+    args: ({ id }) => ({ group_id: id }),
+  },
+  {
+    uri: 'authentik://groups/{id}/members',
+    name: 'Group Members',
+    description: 'The members of a group',
+    tool: 'authentik_get_group_members',
+    args: ({ id }) => ({ group_id: id }),
+  },
+  {
+    uri: 'authentik://applications/{slug}',
+    name: 'Application',
+    description: 'A single application, by slug',
+    tool: 'authentik_get_application',
+    args: ({ slug }) => ({ app_slug: slug }),
+  },
+  {
+    uri: 'authentik://flows/{slug}',
+    name: 'Flow',
+    description: 'A single flow, by slug',
+    tool: 'authentik_get_flow',
+    args: ({ slug }) => ({ flow_slug: slug }),
+  },
+  {
+    uri: 'authentik://events?action={action}',
+    name: 'Events by Action',
+    description: 'Events with one action (e.g. login_failed), newest first',
+    tool: 'authentik_list_events',
+    args: ({ action }) => ({ action }),
+    paginated: true,
+    changeMarker: newestEvent,
+  },
+];
+
+function isTemplate(resource: ResourceDefinition): boolean {
+  return resource.uri.includes('{');
+}
+
+/**
+ * Parameters of `uri` if it matches the resource URI or template `pattern`.
+ * Query parameters must be the ones of the pattern, plus `cursor` for paginated resources.
+ */
+function matchUri(pattern: string, uri: string, paginated: boolean): Record<string, string> | null {
+  const [patternPath, patternQuery = ''] = pattern.split('?');
+  const [path, query = ''] = uri.split('?');
+
+  const names: string[] = [];
+  const pathPattern = patternPath
+    .replace(/[.*+?^$()|[\]\\]/g, '\\$&')
+    .replace(/\{(\w+)\}/g, (_match, name: string) => {
+      names.push(name);
+      return '([^/]+)';
+    });
+  const match = new RegExp(`^${pathPattern}$`).exec(path);
+  if (!match) {
+    return null;
+  }
+  const params: Record<string, string> = Object.fromEntries(
+    names.map((name, index) => [name, decodeURIComponent(match[index + 1])])
+  );
+
+  const search = new URLSearchParams(query);
+  const expected = new URLSearchParams(patternQuery);
+  for (const key of search.keys()) {
+    if (!expected.has(key) && !(paginated && key === 'cursor')) {
+      return null;
+    }
+  }
+  for (const [key, value] of expected) {
+    const name = /^\{(\w+)\}$/.exec(value)?.[1];
+    const actual = search.get(key);
+    if (actual === null || (name === undefined && actual !== value)) {
+      return null;
+    }
+    if (name !== undefined) {
+      params[name] = actual;
+    }
+  }
+  return params;
+}
+
+function withCursor(uri: string, cursor: string): string {
+  const [path, query = ''] = uri.split('?');
+  const search = new URLSearchParams(query);
+  search.set('cursor', cursor);
+  return `${path}?${search}`;
+}
+
+/** The resources of one server, each read through a tool of the server's registry. */
+export class ResourceRegistry {
+  constructor(
+    readonly resources: ResourceDefinition[],
+    private tools: ToolRegistry
+  ) {}
+
+  /** Fixed resources, once per instance. */
+  listResources(instances: InstanceRegistry | null) {
+    return this.offered()
+      .filter((resource) => !isTemplate(resource))
+      .map(({ uri, name, description }) => ({ uri, name, description, mimeType: MIME_TYPE }))
+      .flatMap((resource) => instances?.namespaceResource(resource) ?? [resource]);
+  }
+
+  /** Resource templates, once per instance. */
+  listTemplates(instances: InstanceRegistry | null) {
+    return this.offered()
+      .filter(isTemplate)
+      .map(({ uri, name, description }) => ({ uri, name, description, mimeType: MIME_TYPE }))
+      .flatMap((resource) => instances?.namespaceResource(resource) ?? [resource])
+      .map(({ uri, ...template }) => ({ uriTemplate: uri, ...template }));
+  }
+
+  /**
+   * Read a resource. Pages of a list carry `next_cursor` and `next_uri`
+   * while more pages follow.
+   */
+  async read(uri: string, instances: InstanceRegistry) {
+    // authentik://prod/users reads authentik://users of the prod instance
+    const { client, uri: resourceUri } = instances.resolveResourceUri(uri);
+    const [resource, params] = this.match(resourceUri);
+    const tool = this.toolOf(resource);
+
+    const cursor = new URLSearchParams(resourceUri.split('?')[1]).get('cursor');
+    // Resources are always plain JSON, so the output shaping arguments are left out
+    const args = parseToolArguments(tool.name, tool.args.omit({ fields: true, output: true }), {
+      ...resource.args?.(params),
+      ...(resource.paginated ? { page: cursor ?? 1, page_size: RESOURCE_PAGE_SIZE } : {}),
+    });
+    let data: any = await tool.handler(args, { client, instances, tool });
+    if (resource.paginated && data?.pagination?.next) {
+      const next = String(data.pagination.next);
+      data = { ...data, next_cursor: next, next_uri: withCursor(uri, next) };
+    }
+
+    return {
+      contents: [{ uri, mimeType: MIME_TYPE, text: JSON.stringify(data, null, 2) }],
+    };
+  }
+
+  /** A digest that changes whenever the resource does, compared by subscriptions. */
+  async fingerprint(uri: string, instances: InstanceRegistry): Promise<string> {
+    const [resource] = this.match(instances.resolveResourceUri(uri).uri);
+    const {
+      contents: [{ text }],
+    } = await this.read(uri, instances);
+    const marker = resource.changeMarker
+      ? JSON.stringify(resource.changeMarker(JSON.parse(text)))
+      : text;
+    return createHash('sha256').update(marker).digest('hex');
+  }
+
+  /** Whether a resource (without instance prefix) can be read through the offered tools. */
+  offers(uri: string): boolean {
+    const [resource] = this.match(uri);
+    return this.tools.get(resource.tool) !== undefined;
+  }
+
+  // Resources whose tool the server offers; the others are neither listed nor readable
+  private offered(): ResourceDefinition[] {
+    return this.resources.filter((resource) => this.tools.get(resource.tool) !== undefined);
+  }
+
+  private match(uri: string): [ResourceDefinition, Record<string, string>] {
+    for (const resource of this.resources) {
+      for (const pattern of [resource.uri, ...(resource.aliases ?? [])]) {
+        const params = matchUri(pattern, uri, Boolean(resource.paginated));
+        if (params) {
+          return [resource, params];
+        }
+      }
+    }
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+
+  private toolOf(resource: ResourceDefinition): ToolDefinition {
+    const tool = this.tools.get(resource.tool);
+    if (!tool) {
+      throw new Error(`Resource ${resource.uri} needs tool ${resource.tool}, which is not offered`);
+    }
+    return tool;
+  }
+}
@@ -0,0 +1,152 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { InstanceRegistry } from './instances.js';
+import { ResourceRegistry } from './resources.js';
+
+/** Default seconds between checks of subscribed resources (--poll-interval). */
+export const DEFAULT_POLL_INTERVAL = 30;
+
+// Lists watched for added or removed objects while clients are connected
+const LIST_CHANGE_URIS = ['authentik://applications', 'authentik://brands'];
+
+// Which objects a list holds, regardless of changes to the objects themselves
+function membership(content: any): string {
+  return JSON.stringify([
+    content.pagination?.count,
+    (content.results ?? []).map((item: any) => item.pk),
+  ]);
+}
+
+/**
+ * Polls Authentik on behalf of the connected servers (one per client session)
+ * and notifies them of changes: `notifications/resources/updated` for the
+ * resources a client subscribed to, and `notifications/resources/list_changed`
+ * when applications or brands are added or removed.
+ */
+export class ResourcePoller {
+  private servers = new Set<Server>();
+  // Subscribed servers and last seen fingerprint of each resource URI
+  private subscriptions = new Map<string, { servers: Set<Server>; fingerprint: string }>();
+  // Last seen membership of each watched list, per instance
+  private lists = new Map<string, string>();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private resources: ResourceRegistry,
+    private instances: InstanceRegistry,
+    private intervalMs: number
+  ) {}
+
+  /** Handle resources/subscribe and resources/unsubscribe for a server and keep it notified. */
+  register(server: Server): void {
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      await this.subscribe(server, request.params.uri);
+      return {};
+    });
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.unsubscribe(server, request.params.uri);
+      return {};
+    });
+    server.onclose = () => this.detach(server);
+    this.servers.add(server);
+    this.schedule();
+  }
+
+  // Reading the resource rejects unknown URIs and records the state changes are compared to
+  private async subscribe(server: Server, uri: string): Promise<void> {
+    const subscription = this.subscriptions.get(uri);
+    if (subscription) {
+      subscription.servers.add(server);
+      return;
+    }
+    const fingerprint = await this.resources.fingerprint(uri, this.instances);
+    this.subscriptions.set(uri, { servers: new Set([server]), fingerprint });
+  }
+
+  private unsubscribe(server: Server, uri: string): void {
+    const subscription = this.subscriptions.get(uri);
+    subscription?.servers.delete(server);
+    if (subscription?.servers.size === 0) {
+      this.subscriptions.delete(uri);
+    }
+  }
+
+  private detach(server: Server): void {
+    this.servers.delete(server);
+    for (const uri of [...this.subscriptions.keys()]) {
+      this.unsubscribe(server, uri);
+    }
+  }
+
+  // Polls run one after another and only while a client is connected
+  private schedule(): void {
+    if (this.timer || this.servers.size === 0) {
+      return;
+    }
+    const timer = setTimeout(async () => {
+      await this.poll();
+      this.timer = null;
+      this.schedule();
+    }, this.intervalMs);
+    // Polling alone never keeps the process alive
+    timer.unref();
+    this.timer = timer;
+  }
+
+  private async poll(): Promise<void> {
+    for (const [uri, subscription] of this.subscriptions) {
+      const fingerprint = await this.check(uri, () =>
+        this.resources.fingerprint(uri, this.instances)
+      );
+      if (fingerprint !== null && fingerprint !== subscription.fingerprint) {
+        subscription.fingerprint = fingerprint;
+        for (const server of subscription.servers) {
+          this.notify(server, () => server.sendResourceUpdated({ uri }));
+        }
+      }
+    }
+
+    let listChanged = false;
+    for (const uri of this.watchedLists()) {
+      const current = await this.check(uri, async () => {
+        const { contents } = await this.resources.read(uri, this.instances);
+        return membership(JSON.parse(contents[0].text));
+      });
+      const previous = this.lists.get(uri);
+      if (current !== null) {
+        listChanged ||= previous !== undefined && previous !== current;
+        this.lists.set(uri, current);
+      }
+    }
+    if (listChanged) {
+      for (const server of this.servers) {
+        this.notify(server, () => server.sendResourceListChanged());
+      }
+    }
+  }
+
+  private watchedLists(): string[] {
+    return LIST_CHANGE_URIS.filter((uri) => this.resources.offers(uri)).flatMap((uri) =>
+      this.instances.namespaceResource({ uri, name: uri }).map((resource) => resource.uri)
+    );
+  }
+
+  // A failed check is logged and retried with the next poll
+  private async check(uri: string, fingerprint: () => Promise<string>): Promise<string | null> {
+    try {
+      return await fingerprint();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Polling ${uri} failed: ${message}`);
+      return null;
+    }
+  }
+
+  // A notification that cannot be sent means the client is gone
+  private notify(server: Server, send: () => Promise<void>): void {
+    send().catch(() => this.detach(server));
+  }
+}
@@ -0,0 +1,94 @@
+import { z, ZodError } from 'zod';
+import type { ZodSchema as ZodV3Schema } from 'zod/v3';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { formatZodError } from './config.js';
+
+// Some clients send every argument as a string; numbers and booleans are coerced back
+function coerceNumber(value: unknown): unknown {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return value;
+  }
+  return Number.isNaN(Number(value)) ? value : Number(value);
+}
+
+function coerceBoolean(value: unknown): unknown {
+  return value === 'true' ? true : value === 'false' ? false : value;
+}
+
+/** Integer argument, optionally within bounds; numeric strings are accepted. */
+export function integerArg({ min, max }: { min?: number; max?: number } = {}) {
+  let schema = z.number().int();
+  if (min !== undefined) {
+    schema = schema.min(min);
+  }
+  if (max !== undefined) {
+    schema = schema.max(max);
+  }
+  return z.preprocess(coerceNumber, schema);
+}
+
+/** Boolean argument; "true" and "false" are accepted. */
+export function booleanArg() {
+  return z.preprocess(coerceBoolean, z.boolean());
+}
+
+/** ISO 8601 date-time argument, with or without a UTC offset. */
+export function dateTimeArg() {
+  return z.string().datetime({ offset: true, local: true });
+}
+
+/** Every argument of `shape` made optional, e.g. for an update tool sharing a create tool's fields. */
+export function optionalArgs(shape: z.ZodRawShape): z.ZodRawShape {
+  return z.object(shape).partial().shape;
+}
+
+/** The arguments of one tool, as a zod object (unknown keys are stripped). */
+export type ToolArgs = z.AnyZodObject;
+
+/** JSON Schema object as advertised in a tool's `inputSchema`. */
+export interface ToolInputSchema {
+  type: 'object';
+  properties?: Record<string, unknown>;
+  required?: string[];
+  [key: string]: unknown;
+}
+
+/** The advertised `inputSchema` of a tool, generated from its zod arguments. */
+export function toolInputSchema(args: ToolArgs): ToolInputSchema {
+  // zod-to-json-schema is typed against zod/v3, which resolves to separate declarations
+  // of the same classes; comparing the two structurally exhausts tsc
+  const schema = zodToJsonSchema(args as unknown as ZodV3Schema, {
+    $refStrategy: 'none',
+  }) as ToolInputSchema;
+  // Unknown arguments are stripped rather than rejected, and clients don't need the dialect
+  delete schema.$schema;
+  delete schema.additionalProperties;
+  return schema;
+}
+
+export class InvalidArgumentsError extends Error {
+  constructor(
+    readonly tool: string,
+    readonly zodError: ZodError
+  ) {
+    super(`Invalid arguments for ${tool}:\n${formatZodError(zodError)}`);
+  }
+}
+
+/**
+ * Validate the arguments of a tool call before any API request is made:
+ * strings are coerced to numbers and booleans where the schema asks for them,
+ * defaults are filled in and unknown keys are dropped. A call without
+ * arguments is validated as `{}`.
+ */
+export function parseToolArguments<T extends ToolArgs>(
+  tool: string,
+  args: T,
+  input: unknown
+): z.output<T> {
+  const parsed = args.safeParse(input ?? {});
+  if (!parsed.success) {
+    throw new InvalidArgumentsError(tool, parsed.error);
+  }
+  return parsed.data;
+}
@@ -0,0 +1,94 @@
+import { z } from 'zod';
+import { outputArgs } from '../output.js';
+import { paginationArgs } from '../pagination.js';
+import {
+  createObject,
+  deleteObject,
+  getObject,
+  listObjects,
+  planCreate,
+  planDelete,
+  planUpdate,
+  ToolDefinition,
+  updateObject,
+} from '../registry.js';
+import { booleanArg, integerArg } from '../tool-args.js';
+
+export const applicationTools: ToolDefinition[] = [
+  {
+    name: 'authentik_list_applications',
+    description: 'List all applications in Authentik',
+    args: z.object({
+      search: z.string().describe('Search term for filtering applications').optional(),
+      ordering: z.string().describe('Field to order by').optional(),
+      ...paginationArgs,
+      ...outputArgs,
+    }),
+    access: 'read',
+    endpoint: '/core/applications/',
+    resource: 'applications',
+    aliases: ['authentik_list_applications_status'],
+    handler: listObjects(),
+  },
+  {
+    name: 'authentik_get_application',
+    description: 'Get details of a specific application',
+    args: z.object({
+      app_slug: z.string().describe('Application slug to retrieve'),
+      ...outputArgs,
+    }),
+    access: 'read',
+    endpoint: '/core/applications/',
+    resource: 'applications',
+    aliases: ['authentik_get_application_status'],
+    handler: getObject('app_slug'),
+  },
+  {
+    name: 'authentik_create_application',
+    description: 'Create a new application in Authentik',
+    args: z.object({
+      name: z.string().describe('Application name'),
+      slug: z.string().describe('Application slug'),
+      provider: integerArg().describe('Provider ID').optional(),
+      meta_description: z.string().describe('Application description').optional(),
+      meta_publisher: z.string().describe('Application publisher').optional(),
+      policy_engine_mode: z.enum(['all', 'any']).describe('Policy engine mode').default('any'),
+    }),
+    access: 'write',
+    endpoint: '/core/applications/',
+    handler: createObject(),
+    plan: planCreate(),
+  },
+  {
+    name: 'authentik_update_application',
+    description: 'Update an existing application',
+    args: z.object({
+      app_slug: z.string().describe('Application slug to update'),
+      name: z.string().describe('Application name').optional(),
+      slug: z.string().describe('New application slug').optional(),
+      provider: integerArg()
+        .nullable()
+        .describe('Provider ID (null to unlink the provider)')
+        .optional(),
+      meta_launch_url: z.string().describe('Application launch URL').optional(),
+      meta_description: z.string().describe('Application description').optional(),
+      meta_publisher: z.string().describe('Application publisher').optional(),
+      open_in_new_tab: booleanArg().describe('Open launch URL in a new tab').optional(),
+      group: z.string().describe('Group name used to arrange applications').optional(),
+      policy_engine_mode: z.enum(['all', 'any']).describe('Policy engine mode').optional(),
+    }),
+    access: 'write',
+    endpoint: '/core/applications/',
+    handler: updateObject('app_slug'),
+    plan: planUpdate('app_slug'),
+  },
+  {
+    name: 'authentik_delete_application',
+    description: 'Delete an application from Authentik',
+    args: z.object({ app_slug: z.string().describe('Application slug to delete') }),
+    access: 'write',
+    endpoint: '/core/applications/',
+    handler: deleteObject('app_slug', 'Application'),
+    plan: planDelete('app_slug'),
+  },
+];
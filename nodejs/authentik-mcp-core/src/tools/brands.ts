@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import { AuthentikClient } from '../client.js';
+import { outputArgs } from '../output.js';
+import { paginationArgs } from '../pagination.js';
+import {
+  createObject,
+  deleteObject,
+  getObject,
+  listObjects,
+  planCreate,
+  planDelete,
+  planUpdate,
+  ToolCallArgs,
+  ToolContext,
+  ToolDefinition,
+  updateObject,
+} from '../registry.js';
+import { booleanArg, optionalArgs } from '../tool-args.js';
+
+// Brands replaced tenants in authentik 2024.2; older versions only expose /core/tenants/.
+// Instances may run different versions, so the endpoint is found per client
+const brandsEndpoints = new WeakMap<AuthentikClient, string>();
+
+async function getBrandsEndpoint(client: AuthentikClient): Promise<string> {
+  let endpoint = brandsEndpoints.get(client);
+  if (!endpoint) {
+    try {
+      await client.request('GET', '/core/brands/', undefined, { page_size: 1 });
+      endpoint = '/core/brands/';
+    } catch (error: any) {
+      if (error.response?.status !== 404) {
+        throw error;
+      }
+      endpoint = '/core/tenants/';
+    }
+    brandsEndpoints.set(client, endpoint);
+  }
+  return endpoint;
+}
+
+const brandArgs = {
+  domain: z.string().describe('Domain that activates this brand'),
+  default: booleanArg().describe('Use this brand when no domain matches').optional(),
+  branding_title: z.string().describe('Title shown in the browser and flows').optional(),
+  branding_logo: z.string().describe('Logo URL or path').optional(),
+  branding_favicon: z.string().describe('Favicon URL or path').optional(),
+  flow_authentication: z.string().describe('Default authentication flow UUID').optional(),
+  flow_invalidation: z.string().describe('Default invalidation flow UUID').optional(),
+  flow_recovery: z.string().describe('Recovery flow UUID').optional(),
+  flow_unenrollment: z.string().describe('Unenrollment flow UUID').optional(),
+  flow_user_settings: z.string().describe('User settings flow UUID').optional(),
+  flow_device_code: z.string().describe('Device code flow UUID').optional(),
+  default_application: z
+    .string()
+    .describe('Application UUID users are redirected to after login')
+    .optional(),
+  web_certificate: z.string().describe('Certificate keypair UUID for the domain').optional(),
+  attributes: z.record(z.unknown()).describe('Brand attributes').optional(),
+};
+
+// Run a handler or planner against the brands endpoint of the instance the call is for
+const onBrandsEndpoint =
+  <T>(fn: (args: ToolCallArgs, context: ToolContext) => T) =>
+  async (args: ToolCallArgs, context: ToolContext): Promise<Awaited<T>> => {
+    const endpoint = await getBrandsEndpoint(context.client);
+    return await fn(args, { ...context, tool: { ...context.tool, endpoint } });
+  };
+
+export const brandTools: ToolDefinition[] = [
+  {
+    name: 'authentik_list_brands',
+    description: 'List brands (tenants on authentik versions before 2024.2)',
+    args: z.object({
+      search: z.string().describe('Search term for filtering brands').optional(),
+      domain: z.string().describe('Filter by domain').optional(),
+      default: booleanArg().describe('Filter by default flag').optional(),
+      ordering: z.string().describe('Field to order by').optional(),
+      ...paginationArgs,
+      ...outputArgs,
+    }),
+    access: 'read',
+    endpoint: '/core/brands/',
+    resource: 'brands',
+    handler: onBrandsEndpoint(listObjects()),
+  },
+  {
+    name: 'authentik_get_brand',
+    description: 'Get details of a specific brand, including its flow assignments',
+    args: z.object({
+      brand_id: z.string().describe('Brand (or tenant) UUID to retrieve'),
+      ...outputArgs,
+    }),
+    access: 'read',
+    endpoint: '/core/brands/',
+    resource: 'brands',
+    handler: onBrandsEndpoint(getObject('brand_id')),
+  },
+  {
+    name: 'authentik_create_brand',
+    description: 'Create a new brand',
+    args: z.object(brandArgs),
+    access: 'write',
+    endpoint: '/core/brands/',
+    handler: onBrandsEndpoint(createObject()),
+    plan: planCreate(),
+  },
+  {
+    name: 'authentik_update_brand',
+    description: 'Update an existing brand, e.g. its branding or default flows',
+    args: z.object({
+      brand_id: z.string().describe('Brand (or tenant) UUID to update'),
+      ...optionalArgs(brandArgs),
+    }),
+    access: 'write',
+    endpoint: '/core/brands/',
+    handler: onBrandsEndpoint(updateObject('brand_id')),
+    plan: onBrandsEndpoint(planUpdate('brand_id')),
+  },
+  {
+    name: 'authentik_delete_brand',
+    description: 'Delete a brand',
+    args: z.object({ brand_id: z.string().describe('Brand (or tenant) UUID to delete') }),
+    access: 'write',
+    endpoint: '/core/brands/',
+    handler: onBrandsEndpoint(deleteObject('brand_id', 'Brand')),
+    plan: onBrandsEndpoint(planDelete('brand_id')),
+  },
+];
@@ -0,0 +1,75 @@
+import { z } from 'zod';
+import { outputArgs } from '../output.js';
+import { MAX_FETCH_ALL_ITEMS, paginationArgs } from '../pagination.js';
+import { getObject, listObjects, ToolDefinition, ToolHandler } from '../registry.js';
+import { dateTimeArg, integerArg } from '../tool-args.js';
+
+// Newest events matching the filters, up to `limit`
+const latestEvents: ToolHandler = ({ limit, ...params }, { client }) =>
+  client.listAll(
+    '/events/events/',
+    { ordering: '-created', ...params },
+    Math.min(limit, MAX_FETCH_ALL_ITEMS)
+  );
+
+export const eventTools: ToolDefinition[] = [
+  {
+    name: 'authentik_list_events',
+    description: 'List system events and audit logs',
+    args: z.object({
+      action: z
+        .string()
+        .describe('Filter by event action (e.g., login, logout, update_user)')
+        .optional(),
+      client_ip: z.string().describe('Filter by client IP address').optional(),
+      username: z.string().describe('Filter by username').optional(),
+      tenant: z.string().describe('Filter by tenant').optional(),
+      created__gte: dateTimeArg().describe('Events created after this date').optional(),
+      created__lte: dateTimeArg().describe('Events created before this date').optional(),
+      ordering: z.string().describe('Field to order by').default('-created'),
+      ...paginationArgs,
+      ...outputArgs,
+    }),
+    access: 'read',
+    endpoint: '/events/events/',
+    resource: 'events',
+    handler: listObjects(),
+  },
+  {
+    name: 'authentik_get_event',
+    description: 'Get details of a specific event',
+    args: z.object({ event_id: z.string().describe('Event ID to retrieve'), ...outputArgs }),
+    access: 'read',
+    endpoint: '/events/events/',
+    resource: 'events',
+    handler: getObject('event_id'),
+  },
+  {
+    name: 'authentik_search_events',
+    description: 'Search events by context data and other criteria',
+    args: z.object({
+      search: z.string().describe('Search term for event context').optional(),
+      action: z.string().describe('Filter by specific action').optional(),
+      limit: integerArg().describe('Limit number of results').default(50),
+      ...outputArgs,
+    }),
+    access: 'read',
+    endpoint: '/events/events/',
+    resource: 'events',
+    handler: latestEvents,
+  },
+  {
+    name: 'authentik_get_user_events',
+    description: 'Get events related to a specific user',
+    args: z.object({
+      username: z.string().describe('Username to get events for').optional(),
+      action: z.string().describe('Filter by event action').optional(),
+      limit: integerArg().describe('Limit number of results').default(20),
+      ...outputArgs,
+    }),
+    access: 'read',
+    endpoint: '/events/events/',
+    resource: 'events',
+    handler: latestEvents,
+  },
+];
@@ -0,0 +1,236 @@
+import { z } from 'zod';
+import { outputArgs } from '../output.js';
+import { paginationArgs } from '../pagination.js';
+import {
+  createObject,
+  deleteObject,
+  getObject,
+  listObjects,
+  listObjectsOfType,
+  planCreate,
+  planDelete,
+  planUpdate,
+  ToolDefinition,
+  updateObject,
+} from '../registry.js';
+import { booleanArg, integerArg, optionalArgs } from '../tool-args.js';
+
+// List endpoint of each stage type
+const STAGE_ENDPOINTS = {
+  authenticator_duo: '/stages/authenticator/duo/',
+  authenticator_sms: '/stages/authenticator/sms/',
+  authenticator_static: '/stages/authenticator/static/',
+  authenticator_totp: '/stages/authenticator/totp/',
+  authenticator_validate: '/stages/authenticator/validate/',
+  authenticator_webauthn: '/stages/authenticator/webauthn/',
+  captcha: '/stages/captcha/',
+  consent: '/stages/consent/',
+  deny: '/stages/deny/',
+  dummy: '/stages/dummy/',
+  email: '/stages/email/',
+  identification: '/stages/identification/',
+  invitation: '/stages/invitation/stages/',
+  password: '/stages/password/',
+  prompt: '/stages/prompt/stages/',
+  redirect: '/stages/redirect/',
+  source: '/stages/source/',
+  user_delete: '/stages/user_delete/',
+  user_login: '/stages/user_login/',
+  user_logout: '/stages/user_logout/',
+  user_write: '/stages/user_write/',
+} as const;
+
+type StageType = keyof typeof STAGE_ENDPOINTS;
+
+const flowArgs = {
+  name: z.string().describe('Flow name'),
+  slug: z.string().describe('Flow slug'),
+  title: z.string().describe('Title shown to users'),
+  designation: z
+    .enum([
+      'authentication',
+      'authorization',
+      'invalidation',
+      'enrollment',
+      'unenrollment',
+      'recovery',
+      'stage_configuration',
+    ])
+    .describe('What the flow is used for'),
+  authentication: z
+    .enum(['none', 'require_authenticated', 'require_unauthenticated', 'require_superuser'])
+    .describe('Required authentication level to start the flow')
+    .optional(),
+  policy_engine_mode: z.enum(['all', 'any']).describe('Policy engine mode').optional(),
+  layout: z
+    .enum(['stacked', 'content_left', 'content_right', 'sidebar_left', 'sidebar_right'])
+    .describe('Flow layout')
+    .optional(),
+  denied_action: z
+    .enum(['message_continue', 'message', 'continue'])
+    .describe('What happens when the user is denied access')
+    .optional(),
+  compatibility_mode: booleanArg().describe('Enable compatibility mode').optional(),
+};
+
+export const flowTools: ToolDefinition[] = [
+  {
+    name: 'authentik_list_flows',
+    description: 'List all authentication flows',
+    args: z.object({
+      search: z.string().describe('Search term for filtering flows').optional(),
+      designation: z.string().describe('Filter by flow designation').optional(),
+      ordering: z.string().describe('Field to order by').optional(),
+      ...paginationArgs,
+      ...outputArgs,
+    }),
+    access: 'read',
+    endpoint: '/flows/instances/',
+    resource: 'flows',
+    aliases: ['authentik_list_flows_status'],
+    handler: listObjects(),
+  },
+  {
+    name: 'authentik_get_flow',
+    description: 'Get details of a specific flow',
+    args: z.object({ flow_slug: z.string().describe('Flow slug to retrieve'), ...outputArgs }),
+    access: 'read',
+    endpoint: '/flows/instances/',
+    resource: 'flows',
+    aliases: ['authentik_get_flow_status'],
+    handler: getObject('flow_slug'),
+  },
+  {
+    name: 'authentik_create_flow',
+    description: 'Create a new flow',
+    args: z.object(flowArgs),
+    access: 'write',
+    endpoint: '/flows/instances/',
+    handler: createObject(),
+    plan: planCreate(),
+  },
+  {
+    name: 'authentik_update_flow',
+    description: 'Update an existing flow',
+    args: z.object({
+      flow_slug: z.string().describe('Flow slug to update'),
+      ...optionalArgs(flowArgs),
+    }),
+    access: 'write',
+    endpoint: '/flows/instances/',
+    handler: updateObject('flow_slug'),
+    plan: planUpdate('flow_slug'),
+  },
+  {
+    name: 'authentik_delete_flow',
+    description: 'Delete a flow',
+    args: z.object({ flow_slug: z.string().describe('Flow slug to delete') }),
+    access: 'write',
+    endpoint: '/flows/instances/',
+    handler: deleteObject('flow_slug', 'Flow'),
+    plan: planDelete('flow_slug'),
+  },
+  {
+    name: 'authentik_export_flow',
+    description: 'Export a flow (with its stages and bindings) as a YAML blueprint',
+    args: z.object({ flow_slug: z.string().describe('Flow slug to export') }),
+    access: 'read',
+    endpoint: '/flows/instances/',
+    handler: async (args, { client }) => {
+      const content = await client.request('GET', `/flows/instances/${args.flow_slug}/export/`);
+      return { flow_slug: args.flow_slug, content };
+    },
+  },
+  {
+    name: 'authentik_import_flow',
+    description: 'Import a flow from a YAML blueprint (as produced by authentik_export_flow)',
+    args: z.object({
+      content: z.string().describe('YAML blueprint content'),
+      clear: booleanArg()
+        .describe('Remove existing stage bindings of the flow before importing')
+        .default(false),
+    }),
+    access: 'write',
+    endpoint: '/flows/instances/',
+    handler: (args, { client }) => {
+      const form = new FormData();
+      form.append('file', new Blob([args.content], { type: 'application/yaml' }), 'flow.yaml');
+      form.append('clear', String(args.clear));
+      return client.upload('/flows/instances/import/', form);
+    },
+    plan: (args) => ({
+      action: 'action',
+      summary: `Import a flow blueprint of ${args.content.length} characters${
+        args.clear ? ', clearing existing stage bindings' : ''
+      }`,
+    }),
+  },
+
+  // Stages and their bindings to flows
+  {
+    name: 'authentik_list_stages',
+    description: 'List stages, optionally restricted to a single stage type',
+    args: z.object({
+      stage_type: z
+        .enum(Object.keys(STAGE_ENDPOINTS) as [StageType, ...StageType[]])
+        .describe('Only list stages of this type (returns type-specific fields)')
+        .optional(),
+      search: z.string().describe('Search term for filtering stages').optional(),
+      ordering: z.string().describe('Field to order by').optional(),
+      ...paginationArgs,
+      ...outputArgs,
+    }),
+    access: 'read',
+    endpoint: '/stages/all/',
+    resource: 'stages',
+    handler: listObjectsOfType(STAGE_ENDPOINTS, 'stage_type'),
+  },
+  {
+    name: 'authentik_list_flow_bindings',
+    description: 'List stage bindings, e.g. the ordered stages of a flow',
+    args: z.object({
+      target: z.string().describe('Filter by flow UUID').optional(),
+      stage: z.string().describe('Filter by stage UUID').optional(),
+      ordering: z.string().describe('Field to order by').default('order'),
+      ...paginationArgs,
+      ...outputArgs,
+    }),
+    access: 'read',
+    endpoint: '/flows/bindings/',
+    resource: 'flow_bindings',
+    handler: listObjects(),
+  },
+  {
+    name: 'authentik_create_flow_binding',
+    description: 'Bind a stage to a flow at a given position',
+    args: z.object({
+      target: z.string().describe('Flow UUID'),
+      stage: z.string().describe('Stage UUID'),
+      order: integerArg().describe('Position of the stage within the flow'),
+      evaluate_on_plan: booleanArg()
+        .describe('Evaluate policies when the flow plan is created')
+        .optional(),
+      re_evaluate_policies: booleanArg()
+        .describe('Evaluate policies again before the stage is shown')
+        .optional(),
+      policy_engine_mode: z.enum(['all', 'any']).describe('Policy engine mode').optional(),
+      invalid_response_action: z
+        .enum(['retry', 'restart', 'restart_with_context'])
+        .describe('What happens when the stage receives an invalid response')
+        .optional(),
+    }),
+    access: 'write',
+    endpoint: '/flows/bindings/',
+    handler: createObject(),
+    plan: planCreate(),
+  },
+  {
+    name: 'authentik_delete_flow_binding',
+    description: 'Remove a stage binding from a flow',
+    args: z.object({ binding_id: z.string().describe('Stage binding UUID to delete') }),
+    access: 'write',
+    endpoint: '/flows/bindings/',
+    handler: deleteObject('binding_id', 'Stage binding'),
+    plan: planDelete('binding_id'),
+  },
+];
@@ -0,0 +1,47 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { AuthentikClient } from '../client.js';
+import { InstanceRegistry } from '../instances.js';
+import { ToolCallArgs, ToolDefinition } from '../registry.js';
+import { parseToolArguments } from '../tool-args.js';
+import { groupTools } from './groups.js';
+
+const addTool = groupTools.find(({ name }) => name === 'authentik_add_user_to_group')!;
+const removeTool = groupTools.find(({ name }) => name === 'authentik_remove_user_from_group')!;
+
+// A client with one group whose only member is user 1
+function fakeClient() {
+  const request = jest.fn(
+    async (method: string, _endpoint: string, _body?: unknown): Promise<any> =>
+      method === 'GET' ? { pk: 'g1', name: 'Staff', users: [1] } : {}
+  );
+  return { client: { request } as unknown as AuthentikClient, request };
+}
+
+function run(tool: ToolDefinition, client: AuthentikClient, input: ToolCallArgs): Promise<any> {
+  const args = parseToolArguments(tool.name, tool.args, input);
+  return tool.handler(args, { client, instances: {} as InstanceRegistry, tool });
+}
+
+describe('group membership tools', () => {
+  it.each([
+    { tool: addTool, userId: 1 },
+    { tool: removeTool, userId: 2 },
+  ])('$tool.name leaves the group alone when nothing would change', async ({ tool, userId }) => {
+    const { client, request } = fakeClient();
+    const result = await run(tool, client, { group_id: 'g1', user_id: userId });
+    expect(result.changed).toBe(false);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([
+    { tool: addTool, userId: 2, action: 'add_user' },
+    { tool: removeTool, userId: 1, action: 'remove_user' },
+  ])('$tool.name changes the membership otherwise', async ({ tool, userId, action }) => {
+    const { client, request } = fakeClient();
+    const result = await run(tool, client, { group_id: 'g1', user_id: userId });
+    expect(result.changed).toBe(true);
+    expect(request).toHaveBeenLastCalledWith('POST', `/core/groups/g1/${action}/`, {
+      pk: userId,
+    });
+  });
+});
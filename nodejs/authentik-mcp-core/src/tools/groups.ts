@@ -0,0 +1,163 @@
+import { z } from 'zod';
+import { outputArgs } from '../output.js';
+import { paginationArgs } from '../pagination.js';
+import {
+  createObject,
+  deleteObject,
+  getObject,
+  listObjects,
+  MutationPlanner,
+  planCreate,
+  planDelete,
+  planUpdate,
+  ToolHandler,
+  updateObject,
+  ToolDefinition,
+} from '../registry.js';
+import { booleanArg, integerArg } from '../tool-args.js';
+
+// Add or remove a single member, leaving the group alone when nothing would change
+const changeMembership =
+  (adding: boolean): ToolHandler =>
+  async (args, { client }) => {
+    const group = await client.request('GET', `/core/groups/${args.group_id}/`);
+    const isMember = (group.users || []).includes(Number(args.user_id));
+
+    if (adding === isMember) {
+      return {
+        group_id: args.group_id,
+        user_id: args.user_id,
+        changed: false,
+        message: `User ${args.user_id} is ${isMember ? 'already' : 'not'} a member of group ${group.name}`,
+      };
+    }
+
+    await client.request(
+      'POST',
+      `/core/groups/${args.group_id}/${adding ? 'add_user' : 'remove_user'}/`,
+      { pk: args.user_id }
+    );
+    return {
+      group_id: args.group_id,
+      user_id: args.user_id,
+      changed: true,
+      message: `User ${args.user_id} ${adding ? 'added to' : 'removed from'} group ${group.name}`,
+    };
+  };
+
+const planMembership =
+  (adding: boolean): MutationPlanner =>
+  (args) => ({
+    action: 'update',
+    endpoint: `/core/groups/${args.group_id}/`,
+    changes: (group) => ({
+      users: adding
+        ? [...new Set([...(group.users || []), Number(args.user_id)])]
+        : (group.users || []).filter((user: number) => user !== Number(args.user_id)),
+    }),
+  });
+
+export const groupTools: ToolDefinition[] = [
+  {
+    name: 'authentik_list_groups',
+    description: 'List all groups in Authentik',
+    args: z.object({
+      search: z.string().describe('Search term for filtering groups').optional(),
+      ordering: z.string().describe('Field to order by').optional(),
+      ...paginationArgs,
+      ...outputArgs,
+    }),
+    access: 'read',
+    endpoint: '/core/groups/',
+    resource: 'groups',
+    aliases: ['authentik_list_groups_info'],
+    handler: listObjects(),
+  },
+  {
+    name: 'authentik_get_group',
+    description: 'Get details of a specific group',
+    args: z.object({ group_id: z.string().describe('Group ID to retrieve'), ...outputArgs }),
+    access: 'read',
+    endpoint: '/core/groups/',
+    resource: 'groups',
+    aliases: ['authentik_get_group_info'],
+    handler: getObject('group_id'),
+  },
+  {
+    name: 'authentik_get_group_members',
+    description: 'Get the members of a specific group',
+    args: z.object({ group_id: z.string().describe('Group ID to get members for') }),
+    access: 'read',
+    endpoint: '/core/groups/',
+    handler: async (args, { client }) => {
+      const group = await client.request('GET', `/core/groups/${args.group_id}/`);
+      return { members: group.users_obj || [] };
+    },
+  },
+  {
+    name: 'authentik_create_group',
+    description: 'Create a new group in Authentik',
+    args: z.object({
+      name: z.string().describe('Group name'),
+      is_superuser: booleanArg().describe('Whether group has superuser privileges').default(false),
+      parent: z.string().describe('Parent group ID').optional(),
+      users: z.array(integerArg()).describe('User IDs to add to group').optional(),
+    }),
+    access: 'write',
+    endpoint: '/core/groups/',
+    handler: createObject(),
+    plan: planCreate(),
+  },
+  {
+    name: 'authentik_update_group',
+    description: 'Update an existing group',
+    args: z.object({
+      group_id: z.string().describe('Group ID to update'),
+      name: z.string().describe('Group name').optional(),
+      is_superuser: booleanArg().describe('Whether group has superuser privileges').optional(),
+      parent: z
+        .string()
+        .nullable()
+        .describe('Parent group ID (null to detach from parent)')
+        .optional(),
+      attributes: z.record(z.unknown()).describe('Group attributes').optional(),
+    }),
+    access: 'write',
+    endpoint: '/core/groups/',
+    handler: updateObject('group_id'),
+    plan: planUpdate('group_id'),
+  },
+  {
+    name: 'authentik_delete_group',
+    description: 'Delete a group from Authentik',
+    args: z.object({ group_id: z.string().describe('Group ID to delete') }),
+    access: 'write',
+    endpoint: '/core/groups/',
+    handler: deleteObject('group_id', 'Group'),
+    plan: planDelete('group_id'),
+  },
+  {
+    name: 'authentik_add_user_to_group',
+    description: 'Add a single user to a group (no-op if already a member)',
+    args: z.object({
+      group_id: z.string().describe('Group ID'),
+      user_id: integerArg().describe('User ID to add'),
+    }),
+    access: 'write',
+    endpoint: '/core/groups/',
+    handler: changeMembership(true),
+    plan: planMembership(true),
+  },
+  {
+    name: 'authentik_remove_user_from_group',
+    description: 'Remove a single user from a group (no-op if not a member)',
+    args: z.object({
+      group_id: z.string().describe('Group ID'),
+      user_id: integerArg().describe('User ID to remove'),
+    }),
+    access: 'write',
+    endpoint: '/core/groups/',
+    handler: changeMembership(false),
+    plan: planMembership(false),
+  },
+];
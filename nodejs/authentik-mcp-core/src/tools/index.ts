@@ -0,0 +1,35 @@
+import { ToolDefinition } from '../registry.js';
+import { applicationTools } from './applications.js';
+import { brandTools } from './brands.js';
+import { eventTools } from './events.js';
+import { flowTools } from './flows.js';
+import { groupTools } from './groups.js';
+import { instanceTools } from './instances.js';
+import { offboardingTools } from './offboarding.js';
+import { policyTools } from './policies.js';
+import { propertyMappingTools } from './property-mappings.js';
+import { providerTools } from './providers.js';
+import { sourceTools } from './sources.js';
+import { systemTools } from './system.js';
+import { tokenTools } from './tokens.js';
+import { userImportExportTools } from './user-import-export.js';
+import { userTools } from './users.js';
+
+/** Every tool shared by the servers; the diagnostic server offers the `read` ones. */
+export const TOOLS: ToolDefinition[] = [
+  ...userTools,
+  ...offboardingTools,
+  ...userImportExportTools,
+  ...groupTools,
+  ...applicationTools,
+  ...eventTools,
+  ...flowTools,
+  ...providerTools,
+  ...policyTools,
+  ...propertyMappingTools,
+  ...sourceTools,
+  ...brandTools,
+  ...tokenTools,
+  ...systemTools,
+  ...instanceTools,
+];
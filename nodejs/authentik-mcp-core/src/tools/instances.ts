@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { compareAcrossInstances, COMPARE_KINDS } from '../instances.js';
+import { ToolDefinition } from '../registry.js';
+
+export const instanceTools: ToolDefinition[] = [
+  {
+    name: 'authentik_list_instances',
+    description: 'List the Authentik instances this server is configured for',
+    args: z.object({}),
+    access: 'read',
+    crossInstance: true,
+    handler: async (_args, { instances }) => instances.list(),
+  },
+  {
+    name: 'authentik_compare_instances',
+    description:
+      'Diff an application or flow (including its stage bindings) between two Authentik instances',
+    args: z.object({
+      kind: z.enum(COMPARE_KINDS).describe('Kind of object to compare'),
+      slug: z.string().describe('Slug of the application or flow'),
+      source_instance: z.string().describe('Instance to compare from'),
+      target_instance: z.string().describe('Instance to compare with'),
+    }),
+    access: 'read',
+    crossInstance: true,
+    handler: (args, { instances }) =>
+      compareAcrossInstances(
+        instances,
+        args.kind,
+        args.slug,
+        args.source_instance,
+        args.target_instance
+      ),
+  },
+];
@@ -0,0 +1,115 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { AuthentikClient } from '../client.js';
+import { InstanceRegistry } from '../instances.js';
+import { ToolCallArgs } from '../registry.js';
+import { parseToolArguments } from '../tool-args.js';
+import { offboardingTools } from './offboarding.js';
+
+const offboardTool = offboardingTools[0];
+
+const USER = {
+  pk: 5,
+  username: 'alice',
+  is_active: true,
+  attributes: { team: 'ops' },
+  groups_obj: [
+    { pk: 'g-staff', name: 'Staff' },
+    { pk: 'g-admins', name: 'Admins' },
+  ],
+};
+
+const LISTS: Record<string, any[]> = {
+  '/core/tokens/': [
+    { identifier: 'alice-api', intent: 'api' },
+    { identifier: 'alice-recovery', intent: 'recovery' },
+  ],
+  '/core/authenticated_sessions/': [{ uuid: 's1' }],
+};
+
+// A client for the user above whose requests fail for the endpoints in `failing`
+function fakeClient(failing: string[] = []) {
+  const request = jest.fn(async (method: string, endpoint: string, _body?: unknown) => {
+    if (failing.includes(endpoint)) {
+      throw new Error(`${method} ${endpoint} failed`);
+    }
+    return method === 'GET' ? USER : {};
+  });
+  const listAll = jest.fn(async (endpoint: string, _params?: unknown) => {
+    if (failing.includes(endpoint)) {
+      throw new Error(`GET ${endpoint} failed`);
+    }
+    const results = LISTS[endpoint] ?? [];
+    return { count: results.length, returned: results.length, truncated: false, results };
+  });
+  return { client: { request, listAll } as unknown as AuthentikClient, request };
+}
+
+function offboard(client: AuthentikClient, input: ToolCallArgs): Promise<any> {
+  const args = parseToolArguments(offboardTool.name, offboardTool.args, input);
+  return offboardTool.handler(args, {
+    client,
+    instances: {} as InstanceRegistry,
+    tool: offboardTool,
+  });
+}
+
+const stepsOf = (report: any) =>
+  Object.fromEntries(report.steps.map(({ step, ...result }: any) => [step, result]));
+
+describe('authentik_offboard_user', () => {
+  it('runs every step and returns the data to restore access', async () => {
+    const { client, request } = fakeClient();
+    const report = await offboard(client, { user_id: 5, reason: 'Left' });
+
+    expect(report.success).toBe(true);
+    expect(stepsOf(report)).toMatchObject({
+      deactivate: { success: true },
+      remove_groups: { success: true, done: ['Staff', 'Admins'], failed: [] },
+      delete_tokens: { success: true, done: ['alice-api (api)'] },
+      revoke_sessions: { success: true, done: ['s1'] },
+    });
+    expect(request).toHaveBeenCalledWith(
+      'PATCH',
+      '/core/users/5/',
+      expect.objectContaining({
+        is_active: false,
+        attributes: expect.objectContaining({
+          team: 'ops',
+          offboarding: expect.objectContaining({ reason: 'Left', was_active: true }),
+        }),
+      })
+    );
+    expect(report.rollback.arguments).toEqual({
+      user_id: 5,
+      is_active: true,
+      groups: ['g-staff', 'g-admins'],
+    });
+  });
+
+  it('reports a failed step and still runs the following ones', async () => {
+    const { client, request } = fakeClient(['/core/users/5/', '/core/tokens/']);
+    // The user is still read, only deactivating it fails
+    request.mockImplementationOnce(async () => USER);
+    const report = await offboard(client, { user_id: 5 });
+
+    const steps = stepsOf(report);
+    expect(report.success).toBe(false);
+    expect(steps.deactivate).toMatchObject({
+      success: false,
+      error: { error: 'PATCH /core/users/5/ failed' },
+    });
+    expect(steps.delete_tokens).toMatchObject({ success: false });
+    expect(steps.remove_groups).toMatchObject({ success: true });
+  });
+
+  it('reports the items a step could not handle', async () => {
+    const { client } = fakeClient(['/core/groups/g-admins/remove_user/']);
+    const report = await offboard(client, { user_id: 5 });
+    expect(report.success).toBe(false);
+    expect(stepsOf(report).remove_groups).toEqual({
+      success: false,
+      done: ['Staff'],
+      failed: [{ item: 'Admins', error: 'POST /core/groups/g-admins/remove_user/ failed' }],
+    });
+  });
+});
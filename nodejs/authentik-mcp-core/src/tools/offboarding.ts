@@ -0,0 +1,153 @@
+import { z } from 'zod';
+import { describeError } from '../errors.js';
+import { ToolDefinition } from '../registry.js';
+import { booleanArg, integerArg } from '../tool-args.js';
+import { listUserAuthenticators, listUserSessions } from './users.js';
+
+// User attribute recording what offboarding removed, so access can be restored later
+const OFFBOARDING_ATTRIBUTE = 'offboarding';
+
+// Token intents a user authenticates with; recovery and verification tokens are left alone
+const CREDENTIAL_TOKEN_INTENTS = ['api', 'app_password'];
+
+interface StepResult {
+  success?: boolean;
+  [key: string]: unknown;
+}
+
+// Run one step of the report; a failed step does not stop the following ones
+async function runStep(step: string, action: () => Promise<StepResult>) {
+  try {
+    return { step, success: true, ...(await action()) };
+  } catch (error: unknown) {
+    return { step, success: false, error: describeError(error) };
+  }
+}
+
+// Apply `action` to every item; the step fails if any item does, after trying them all
+async function forEachItem<T>(
+  items: T[],
+  label: (item: T) => string,
+  action: (item: T) => Promise<unknown>
+): Promise<StepResult> {
+  const done: string[] = [];
+  const failed: { item: string; error: string }[] = [];
+  for (const item of items) {
+    try {
+      await action(item);
+      done.push(label(item));
+    } catch (error: unknown) {
+      failed.push({ item: label(item), error: describeError(error).error });
+    }
+  }
+  return { success: failed.length === 0, done, failed };
+}
+
+export const offboardingTools: ToolDefinition[] = [
+  {
+    name: 'authentik_offboard_user',
+    description:
+      'Offboard a user: deactivate, record and remove their groups, delete their tokens and app passwords, end their sessions and report each step with rollback data',
+    args: z.object({
+      user_id: integerArg().describe('User ID to offboard'),
+      reason: z
+        .string()
+        .describe('Why access is removed, recorded in the user attributes')
+        .optional(),
+      remove_authenticators: booleanArg()
+        .describe('Also remove the MFA devices the user enrolled')
+        .default(false),
+    }),
+    access: 'write',
+    endpoint: '/core/users/',
+    handler: async (args, { client }) => {
+      const user = await client.request('GET', `/core/users/${args.user_id}/`);
+      const previousGroups: { pk: string; name: string }[] = (user.groups_obj ?? []).map(
+        (group: any) => ({ pk: group.pk, name: group.name })
+      );
+
+      const steps = [
+        await runStep('deactivate', async () => {
+          await client.request('PATCH', `/core/users/${user.pk}/`, {
+            is_active: false,
+            attributes: {
+              ...user.attributes,
+              [OFFBOARDING_ATTRIBUTE]: {
+                offboarded_at: new Date().toISOString(),
+                ...(args.reason ? { reason: args.reason } : {}),
+                was_active: user.is_active,
+                groups: previousGroups,
+              },
+            },
+          });
+          return { attribute: OFFBOARDING_ATTRIBUTE };
+        }),
+        await runStep('remove_groups', () =>
+          forEachItem(
+            previousGroups,
+            (group) => group.name,
+            (group) =>
+              client.request('POST', `/core/groups/${group.pk}/remove_user/`, { pk: user.pk })
+          )
+        ),
+        await runStep('delete_tokens', async () => {
+          const { results: tokens } = await client.listAll('/core/tokens/', {
+            user__username: user.username,
+          });
+          return forEachItem(
+            tokens.filter((token) => CREDENTIAL_TOKEN_INTENTS.includes(token.intent)),
+            (token) => `${token.identifier} (${token.intent})`,
+            (token) => client.request('DELETE', `/core/tokens/${token.identifier}/`)
+          );
+        }),
+        await runStep('revoke_sessions', async () => {
+          const { sessions } = await listUserSessions(client, user.pk);
+          return forEachItem(
+            sessions,
+            (session) => session.uuid,
+            (session) => client.request('DELETE', `/core/authenticated_sessions/${session.uuid}/`)
+          );
+        }),
+        ...(args.remove_authenticators
+          ? [
+              await runStep('remove_authenticators', async () =>
+                forEachItem(
+                  await listUserAuthenticators(client, user.pk),
+                  (device: any) => `${device.device_type} ${device.name}`,
+                  (device: any) =>
+                    client.request(
+                      'DELETE',
+                      `/authenticators/admin/${device.device_type}/${device.pk}/`
+                    )
+                )
+              ),
+            ]
+          : []),
+      ];
+
+      return {
+        user_id: user.pk,
+        username: user.username,
+        success: steps.every((step) => step.success),
+        steps,
+        // Deleted tokens, sessions and devices cannot be restored; the user creates new ones
+        rollback: {
+          tool: 'authentik_update_user',
+          arguments: {
+            user_id: user.pk,
+            is_active: user.is_active,
+            groups: previousGroups.map((group) => group.pk),
+          },
+        },
+      };
+    },
+    plan: (args) => ({
+      action: 'update',
+      endpoint: `/core/users/${args.user_id}/`,
+      changes: { is_active: false, groups: [] },
+      summary: args.remove_authenticators
+        ? 'Deactivate the user, remove their groups, tokens, app passwords, sessions and MFA devices'
+        : 'Deactivate the user, remove their groups, tokens, app passwords and sessions',
+    }),
+  },
+];
@@ -0,0 +1,249 @@
+import { z, ZodRawShape } from 'zod';
+import { ToolInputError } from '../errors.js';
+import { outputArgs } from '../output.js';
+import { paginationArgs } from '../pagination.js';
+import {
+  createObject,
+  deleteObject,
+  getObjectOfType,
+  listObjects,
+  listObjectsOfType,
+  planCreate,
+  planDelete,
+  planUpdate,
+  ToolDefinition,
+  updateObject,
+} from '../registry.js';
+import { booleanArg, integerArg, optionalArgs } from '../tool-args.js';
+
+// Policy endpoints and type-specific fields used by the policy tools. Authentik has no
+// group membership policy type any more: binding a group checks membership instead
+const POLICY_ENDPOINTS = {
+  expression: '/policies/expression/',
+  event_matcher: '/policies/event_matcher/',
+  password: '/policies/password/',
+  reputation: '/policies/reputation/',
+} as const;
+
+type PolicyType = keyof typeof POLICY_ENDPOINTS;
+
+const commonPolicyArgs = {
+  name: z.string().describe('Policy name'),
+  execution_logging: booleanArg()
+    .describe('Log every execution of this policy as an event')
+    .optional(),
+};
+
+const policyArgs: Record<PolicyType, ZodRawShape> = {
+  expression: {
+    ...commonPolicyArgs,
+    expression: z.string().describe('Python expression evaluated by the policy'),
+  },
+  event_matcher: {
+    ...commonPolicyArgs,
+    action: z.string().describe('Match events with this action').optional(),
+    client_ip: z.string().describe('Match events from this client IP').optional(),
+    app: z.string().describe('Match events created by this Django app').optional(),
+    model: z.string().describe('Match events for this model (app_label.model_name)').optional(),
+  },
+  password: {
+    ...commonPolicyArgs,
+    password_field: z.string().describe('Field key containing the password').optional(),
+    error_message: z.string().describe('Message shown when the check fails'),
+    check_static_rules: booleanArg().describe('Enforce the length/character rules').optional(),
+    check_have_i_been_pwned: booleanArg().describe('Check against Have I Been Pwned').optional(),
+    check_zxcvbn: booleanArg().describe('Check password strength with zxcvbn').optional(),
+    length_min: integerArg().describe('Minimum password length').optional(),
+    amount_uppercase: integerArg().describe('Minimum uppercase characters').optional(),
+    amount_lowercase: integerArg().describe('Minimum lowercase characters').optional(),
+    amount_digits: integerArg().describe('Minimum digits').optional(),
+    amount_symbols: integerArg().describe('Minimum symbols').optional(),
+    symbol_charset: z.string().describe('Characters counted as symbols').optional(),
+    hibp_allowed_count: integerArg()
+      .describe('How many times the password may appear in HIBP')
+      .optional(),
+    zxcvbn_score_threshold: integerArg().describe('Minimum zxcvbn score (0-4)').optional(),
+  },
+  reputation: {
+    ...commonPolicyArgs,
+    check_ip: booleanArg().describe('Check the reputation of the client IP').optional(),
+    check_username: booleanArg().describe('Check the reputation of the username').optional(),
+    threshold: integerArg().describe('Reputation score the request must stay above').optional(),
+  },
+};
+
+const policyLabels: Record<PolicyType, string> = {
+  expression: 'expression',
+  event_matcher: 'event matcher',
+  password: 'password',
+  reputation: 'reputation',
+};
+
+const policyTypeArg = z.enum(Object.keys(POLICY_ENDPOINTS) as [PolicyType, ...PolicyType[]]);
+
+const policyBindingArgs = {
+  policy: z.string().describe('Policy UUID to bind').optional(),
+  group: z.string().describe('Group UUID to bind (passes if the user is a member)').optional(),
+  user: integerArg().describe('User ID to bind (passes for this user only)').optional(),
+  order: integerArg().describe('Evaluation order'),
+  negate: booleanArg().describe('Negate the result of the binding').optional(),
+  enabled: booleanArg().describe('Whether the binding is evaluated').optional(),
+  timeout: integerArg().describe('Timeout in seconds').optional(),
+  failure_result: booleanArg().describe('Result to use when the policy raises an error').optional(),
+};
+
+export const policyTools: ToolDefinition[] = [
+  {
+    name: 'authentik_list_policies',
+    description: 'List policies, optionally restricted to a single policy type',
+    args: z.object({
+      policy_type: policyTypeArg
+        .describe('Only list policies of this type (returns type-specific fields)')
+        .optional(),
+      search: z.string().describe('Search term for filtering policies').optional(),
+      bindings__isnull: booleanArg()
+        .describe('Filter policies that are not bound anywhere')
+        .optional(),
+      ordering: z.string().describe('Field to order by').optional(),
+      ...paginationArgs,
+      ...outputArgs,
+    }),
+    access: 'read',
+    endpoint: '/policies/all/',
+    resource: 'policies',
+    handler: listObjectsOfType(POLICY_ENDPOINTS, 'policy_type'),
+  },
+  {
+    name: 'authentik_get_policy',
+    description: 'Get details of a specific policy',
+    args: z.object({
+      policy_id: z.string().describe('Policy UUID to retrieve'),
+      policy_type: policyTypeArg.describe('Policy type (returns type-specific fields)').optional(),
+      ...outputArgs,
+    }),
+    access: 'read',
+    endpoint: '/policies/all/',
+    resource: 'policies',
+    handler: getObjectOfType(POLICY_ENDPOINTS, 'policy_type', 'policy_id'),
+  },
+  ...(Object.keys(POLICY_ENDPOINTS) as PolicyType[]).flatMap((type): ToolDefinition[] => [
+    {
+      name: `authentik_create_${type}_policy`,
+      description: `Create a new ${policyLabels[type]} policy`,
+      args: z.object(policyArgs[type]),
+      access: 'write',
+      endpoint: POLICY_ENDPOINTS[type],
+      handler: createObject(),
+      plan: planCreate(),
+    },
+    {
+      name: `authentik_update_${type}_policy`,
+      description: `Update an existing ${policyLabels[type]} policy`,
+      args: z.object({
+        policy_id: z.string().describe('Policy UUID to update'),
+        ...optionalArgs(policyArgs[type]),
+      }),
+      access: 'write',
+      endpoint: POLICY_ENDPOINTS[type],
+      handler: updateObject('policy_id'),
+      plan: planUpdate('policy_id'),
+    },
+  ]),
+  {
+    name: 'authentik_delete_policy',
+    description: 'Delete a policy of any type',
+    args: z.object({ policy_id: z.string().describe('Policy UUID to delete') }),
+    access: 'write',
+    endpoint: '/policies/all/',
+    handler: deleteObject('policy_id', 'Policy'),
+    plan: planDelete('policy_id'),
+  },
+  {
+    name: 'authentik_test_policy',
+    description: 'Evaluate a policy for a user and return the result and log messages',
+    args: z.object({
+      policy_id: z.string().describe('Policy UUID to test'),
+      user: integerArg().describe('User ID to evaluate the policy for'),
+      context: z.record(z.unknown()).describe('Additional context passed to the policy').optional(),
+    }),
+    // Changes nothing, but is sent as a POST
+    access: 'write',
+    endpoint: '/policies/all/',
+    handler: async (args, { client }) => {
+      const result = await client.request('POST', `/policies/all/${args.policy_id}/test/`, {
+        user: args.user,
+        context: args.context || {},
+      });
+      return {
+        policy_id: args.policy_id,
+        user: args.user,
+        passing: result.passing,
+        messages: result.messages || [],
+        log_messages: result.log_messages || [],
+      };
+    },
+  },
+
+  // Policy bindings
+  {
+    name: 'authentik_list_policy_bindings',
+    description: 'List policy bindings, e.g. the policies attached to an application',
+    args: z.object({
+      target: z
+        .string()
+        .describe('Filter by binding target UUID (application, flow, stage binding)')
+        .optional(),
+      policy: z.string().describe('Filter by policy UUID').optional(),
+      enabled: booleanArg().describe('Filter by enabled status').optional(),
+      ordering: z.string().describe('Field to order by').default('order'),
+      ...paginationArgs,
+      ...outputArgs,
+    }),
+    access: 'read',
+    endpoint: '/policies/bindings/',
+    resource: 'policy_bindings',
+    handler: listObjects(),
+  },
+  {
+    name: 'authentik_create_policy_binding',
+    description:
+      'Attach a policy, group or user to an application, flow, stage binding or source. Bind a group to require membership of it; Authentik has no group membership policy',
+    args: z.object({
+      target: z
+        .string()
+        .describe('Target UUID (application pk, flow pk, flow stage binding pk, ...)'),
+      ...policyBindingArgs,
+    }),
+    access: 'write',
+    endpoint: '/policies/bindings/',
+    handler: (args, context) => {
+      const bound = ['policy', 'group', 'user'].filter((key) => args[key] !== undefined);
+      if (bound.length !== 1) {
+        throw new ToolInputError('Exactly one of policy, group or user must be set');
+      }
+      return createObject()(args, context);
+    },
+    plan: planCreate(),
+  },
+  {
+    name: 'authentik_update_policy_binding',
+    description: 'Update an existing policy binding',
+    args: z.object({
+      binding_id: z.string().describe('Policy binding UUID to update'),
+      ...optionalArgs(policyBindingArgs),
+    }),
+    access: 'write',
+    endpoint: '/policies/bindings/',
+    handler: updateObject('binding_id'),
+    plan: planUpdate('binding_id'),
+  },
+  {
+    name: 'authentik_delete_policy_binding',
+    description: 'Remove a policy binding',
+    args: z.object({ binding_id: z.string().describe('Policy binding UUID to delete') }),
+    access: 'write',
+    endpoint: '/policies/bindings/',
+    handler: deleteObject('binding_id', 'Policy binding'),
+    plan: planDelete('binding_id'),
+  },
+];
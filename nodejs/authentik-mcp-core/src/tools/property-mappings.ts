@@ -0,0 +1,128 @@
+import { z, ZodRawShape } from 'zod';
+import { outputArgs } from '../output.js';
+import { paginationArgs } from '../pagination.js';
+import {
+  createObject,
+  deleteObject,
+  getObjectOfType,
+  listObjectsOfType,
+  planCreate,
+  planDelete,
+  planUpdate,
+  ToolDefinition,
+  updateObject,
+} from '../registry.js';
+import { booleanArg, optionalArgs } from '../tool-args.js';
+
+// Property mapping endpoints and type-specific fields used by the property mapping tools
+const PROPERTY_MAPPING_ENDPOINTS = {
+  scope: '/propertymappings/provider/scope/',
+  saml: '/propertymappings/provider/saml/',
+  ldap: '/propertymappings/source/ldap/',
+  notification: '/propertymappings/notification/',
+} as const;
+
+type PropertyMappingType = keyof typeof PROPERTY_MAPPING_ENDPOINTS;
+
+const commonPropertyMappingArgs = {
+  name: z.string().describe('Property mapping name'),
+  expression: z.string().describe('Python expression returning the mapped value'),
+};
+
+const propertyMappingArgs: Record<PropertyMappingType, ZodRawShape> = {
+  scope: {
+    ...commonPropertyMappingArgs,
+    scope_name: z.string().describe('OAuth2 scope name, e.g. profile'),
+    description: z.string().describe('Description shown on the consent screen').optional(),
+  },
+  saml: {
+    ...commonPropertyMappingArgs,
+    saml_name: z.string().describe('SAML attribute name'),
+    friendly_name: z.string().describe('SAML attribute friendly name').optional(),
+  },
+  ldap: { ...commonPropertyMappingArgs },
+  notification: { ...commonPropertyMappingArgs },
+};
+
+const propertyMappingLabels: Record<PropertyMappingType, string> = {
+  scope: 'OAuth2 scope',
+  saml: 'SAML provider',
+  ldap: 'LDAP source',
+  notification: 'notification',
+};
+
+const propertyMappingTypeArg = z.enum(
+  Object.keys(PROPERTY_MAPPING_ENDPOINTS) as [PropertyMappingType, ...PropertyMappingType[]]
+);
+
+export const propertyMappingTools: ToolDefinition[] = [
+  {
+    name: 'authentik_list_property_mappings',
+    description: 'List property mappings, optionally restricted to a single mapping type',
+    args: z.object({
+      mapping_type: propertyMappingTypeArg
+        .describe('Only list mappings of this type (returns type-specific fields)')
+        .optional(),
+      search: z.string().describe('Search term for filtering mappings').optional(),
+      managed__isnull: booleanArg()
+        .describe('Filter mappings that are not managed by authentik')
+        .optional(),
+      ordering: z.string().describe('Field to order by').optional(),
+      ...paginationArgs,
+      ...outputArgs,
+    }),
+    access: 'read',
+    endpoint: '/propertymappings/all/',
+    resource: 'property_mappings',
+    handler: listObjectsOfType(PROPERTY_MAPPING_ENDPOINTS, 'mapping_type'),
+  },
+  {
+    name: 'authentik_get_property_mapping',
+    description: 'Get details of a specific property mapping',
+    args: z.object({
+      mapping_id: z.string().describe('Property mapping UUID to retrieve'),
+      mapping_type: propertyMappingTypeArg
+        .describe('Property mapping type (returns type-specific fields)')
+        .optional(),
+      ...outputArgs,
+    }),
+    access: 'read',
+    endpoint: '/propertymappings/all/',
+    resource: 'property_mappings',
+    handler: getObjectOfType(PROPERTY_MAPPING_ENDPOINTS, 'mapping_type', 'mapping_id'),
+  },
+  ...(Object.keys(PROPERTY_MAPPING_ENDPOINTS) as PropertyMappingType[]).flatMap(
+    (type): ToolDefinition[] => [
+      {
+        name: `authentik_create_${type}_property_mapping`,
+        description: `Create a new ${propertyMappingLabels[type]} property mapping`,
+        args: z.object(propertyMappingArgs[type]),
+        access: 'write',
+        endpoint: PROPERTY_MAPPING_ENDPOINTS[type],
+        handler: createObject(),
+        plan: planCreate(),
+      },
+      {
+        name: `authentik_update_${type}_property_mapping`,
+        description: `Update an existing ${propertyMappingLabels[type]} property mapping`,
+        args: z.object({
+          mapping_id: z.string().describe('Property mapping UUID to update'),
+          ...optionalArgs(propertyMappingArgs[type]),
+        }),
+        access: 'write',
+        endpoint: PROPERTY_MAPPING_ENDPOINTS[type],
+        handler: updateObject('mapping_id'),
+        plan: planUpdate('mapping_id'),
+      },
+    ]
+  ),
+  {
+    name: 'authentik_delete_property_mapping',
+    description: 'Delete a property mapping of any type',
+    args: z.object({ mapping_id: z.string().describe('Property mapping UUID to delete') }),
+    access: 'write',
+    endpoint: '/propertymappings/all/',
+    handler: deleteObject('mapping_id', 'Property mapping'),
+    plan: planDelete('mapping_id'),
+  },
+];
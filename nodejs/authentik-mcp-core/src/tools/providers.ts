@@ -0,0 +1,216 @@
+import { z, ZodRawShape } from 'zod';
+import { outputArgs } from '../output.js';
+import { paginationArgs } from '../pagination.js';
+import {
+  createObject,
+  deleteObject,
+  getObjectOfType,
+  listObjectsOfType,
+  planCreate,
+  planDelete,
+  planUpdate,
+  ToolDefinition,
+  updateObject,
+} from '../registry.js';
+import { booleanArg, integerArg, optionalArgs } from '../tool-args.js';
+
+// Provider endpoints and type-specific fields used by the provider tools
+const PROVIDER_ENDPOINTS = {
+  oauth2: '/providers/oauth2/',
+  saml: '/providers/saml/',
+  ldap: '/providers/ldap/',
+  proxy: '/providers/proxy/',
+} as const;
+
+type ProviderType = keyof typeof PROVIDER_ENDPOINTS;
+
+const commonProviderArgs = {
+  name: z.string().describe('Provider name'),
+  authorization_flow: z.string().describe('Authorization flow UUID'),
+  invalidation_flow: z.string().describe('Invalidation (logout) flow UUID'),
+  property_mappings: z.array(z.string()).describe('Property mapping UUIDs').optional(),
+};
+
+const providerArgs: Record<ProviderType, ZodRawShape> = {
+  oauth2: {
+    ...commonProviderArgs,
+    client_type: z.enum(['confidential', 'public']).describe('OAuth2 client type').optional(),
+    client_id: z.string().describe('Client ID (generated if omitted)').optional(),
+    client_secret: z.string().describe('Client secret (generated if omitted)').optional(),
+    redirect_uris: z
+      .array(z.object({ matching_mode: z.enum(['strict', 'regex']), url: z.string() }))
+      .describe('Allowed redirect URIs')
+      .optional(),
+    signing_key: z.string().describe('Certificate keypair UUID used to sign tokens').optional(),
+    access_code_validity: z.string().describe('Access code validity (e.g. minutes=1)').optional(),
+    access_token_validity: z.string().describe('Access token validity (e.g. hours=1)').optional(),
+    refresh_token_validity: z.string().describe('Refresh token validity (e.g. days=30)').optional(),
+    include_claims_in_id_token: booleanArg()
+      .describe('Include user claims from scopes in the ID token')
+      .optional(),
+    sub_mode: z
+      .enum(['hashed_user_id', 'user_id', 'user_uuid', 'user_username', 'user_email', 'user_upn'])
+      .describe('Value used for the sub claim')
+      .optional(),
+    issuer_mode: z
+      .enum(['global', 'per_provider'])
+      .describe('How the issuer field of the ID token is generated')
+      .optional(),
+  },
+  saml: {
+    ...commonProviderArgs,
+    acs_url: z.string().describe('Assertion Consumer Service URL'),
+    issuer: z.string().describe('Issuer (entity ID) of the IdP').optional(),
+    audience: z.string().describe('Audience restriction for assertions').optional(),
+    sp_binding: z
+      .enum(['redirect', 'post'])
+      .describe('Binding used to send the response to the SP')
+      .optional(),
+    signing_kp: z.string().describe('Certificate keypair UUID used for signing').optional(),
+    verification_kp: z
+      .string()
+      .describe('Certificate UUID used to verify SP request signatures')
+      .optional(),
+    name_id_mapping: z.string().describe('Property mapping UUID used for NameID').optional(),
+    assertion_valid_not_before: z
+      .string()
+      .describe('Assertion validity start offset (e.g. minutes=-5)')
+      .optional(),
+    assertion_valid_not_on_or_after: z
+      .string()
+      .describe('Assertion validity end offset (e.g. minutes=5)')
+      .optional(),
+    session_valid_not_on_or_after: z
+      .string()
+      .describe('Session validity end offset (e.g. minutes=86400)')
+      .optional(),
+    digest_algorithm: z.string().describe('Digest algorithm URI').optional(),
+    signature_algorithm: z.string().describe('Signature algorithm URI').optional(),
+  },
+  ldap: {
+    ...commonProviderArgs,
+    base_dn: z.string().describe('Base DN served by the outpost').optional(),
+    certificate: z.string().describe('Certificate keypair UUID for LDAPS').optional(),
+    tls_server_name: z.string().describe('TLS server name for LDAPS').optional(),
+    uid_start_number: integerArg().describe('Start of the uidNumber range').optional(),
+    gid_start_number: integerArg().describe('Start of the gidNumber range').optional(),
+    search_mode: z
+      .enum(['direct', 'cached'])
+      .describe('How search requests are answered')
+      .optional(),
+    bind_mode: z.enum(['direct', 'cached']).describe('How bind requests are answered').optional(),
+    mfa_support: booleanArg().describe('Allow TOTP codes appended to the password').optional(),
+  },
+  proxy: {
+    ...commonProviderArgs,
+    external_host: z.string().describe('External URL the application is reached at'),
+    internal_host: z.string().describe('Upstream URL (proxy mode only)').optional(),
+    internal_host_ssl_validation: booleanArg()
+      .describe('Validate the upstream SSL certificate')
+      .optional(),
+    mode: z.enum(['proxy', 'forward_single', 'forward_domain']).describe('Proxy mode').optional(),
+    cookie_domain: z.string().describe('Cookie domain (forward_domain mode)').optional(),
+    skip_path_regex: z
+      .string()
+      .describe('Regular expressions for paths that bypass authentication')
+      .optional(),
+    basic_auth_enabled: booleanArg()
+      .describe('Send HTTP Basic credentials to the upstream')
+      .optional(),
+    basic_auth_user_attribute: z
+      .string()
+      .describe('User attribute used as the Basic auth username')
+      .optional(),
+    basic_auth_password_attribute: z
+      .string()
+      .describe('User attribute used as the Basic auth password')
+      .optional(),
+    intercept_header_auth: booleanArg()
+      .describe('Intercept Authorization headers sent by clients')
+      .optional(),
+    access_token_validity: z.string().describe('Access token validity (e.g. hours=24)').optional(),
+  },
+};
+
+const providerLabels: Record<ProviderType, string> = {
+  oauth2: 'OAuth2/OpenID',
+  saml: 'SAML',
+  ldap: 'LDAP',
+  proxy: 'Proxy',
+};
+
+const providerTypeArg = z.enum(
+  Object.keys(PROVIDER_ENDPOINTS) as [ProviderType, ...ProviderType[]]
+);
+
+export const providerTools: ToolDefinition[] = [
+  {
+    name: 'authentik_list_providers',
+    description: 'List all providers',
+    args: z.object({
+      provider_type: providerTypeArg
+        .describe('Only list providers of this type (returns type-specific fields)')
+        .optional(),
+      search: z.string().describe('Search term for filtering providers').optional(),
+      application__isnull: booleanArg()
+        .describe('Filter providers without applications')
+        .optional(),
+      ordering: z.string().describe('Field to order by').optional(),
+      ...paginationArgs,
+      ...outputArgs,
+    }),
+    access: 'read',
+    endpoint: '/providers/all/',
+    resource: 'providers',
+    aliases: ['authentik_list_providers_status'],
+    handler: listObjectsOfType(PROVIDER_ENDPOINTS, 'provider_type'),
+  },
+  {
+    name: 'authentik_get_provider',
+    description: 'Get details of a specific provider',
+    args: z.object({
+      provider_id: integerArg().describe('Provider ID to retrieve'),
+      provider_type: providerTypeArg
+        .describe('Provider type (returns type-specific fields)')
+        .optional(),
+      ...outputArgs,
+    }),
+    access: 'read',
+    endpoint: '/providers/all/',
+    resource: 'providers',
+    aliases: ['authentik_get_provider_status'],
+    handler: getObjectOfType(PROVIDER_ENDPOINTS, 'provider_type', 'provider_id'),
+  },
+  ...(Object.keys(PROVIDER_ENDPOINTS) as ProviderType[]).flatMap((type): ToolDefinition[] => [
+    {
+      name: `authentik_create_${type}_provider`,
+      description: `Create a new ${providerLabels[type]} provider`,
+      args: z.object(providerArgs[type]),
+      access: 'write',
+      endpoint: PROVIDER_ENDPOINTS[type],
+      handler: createObject(),
+      plan: planCreate(),
+    },
+    {
+      name: `authentik_update_${type}_provider`,
+      description: `Update an existing ${providerLabels[type]} provider`,
+      args: z.object({
+        provider_id: integerArg().describe('Provider ID to update'),
+        ...optionalArgs(providerArgs[type]),
+      }),
+      access: 'write',
+      endpoint: PROVIDER_ENDPOINTS[type],
+      handler: updateObject('provider_id'),
+      plan: planUpdate('provider_id'),
+    },
+  ]),
+  {
+    name: 'authentik_delete_provider',
+    description: 'Delete a provider of any type',
+    args: z.object({ provider_id: integerArg().describe('Provider ID to delete') }),
+    access: 'write',
+    endpoint: '/providers/all/',
+    handler: deleteObject('provider_id', 'Provider'),
+    plan: planDelete('provider_id'),
+  },
+];
@@ -0,0 +1,233 @@
+import { z, ZodRawShape } from 'zod';
+import { ToolInputError } from '../errors.js';
+import { outputArgs } from '../output.js';
+import { paginationArgs } from '../pagination.js';
+import {
+  createObject,
+  deleteObject,
+  getObjectOfType,
+  listObjectsOfType,
+  planCreate,
+  planDelete,
+  planUpdate,
+  ToolDefinition,
+  updateObject,
+} from '../registry.js';
+import { booleanArg, optionalArgs } from '../tool-args.js';
+
+// Source endpoints and type-specific fields used by the source tools
+const SOURCE_ENDPOINTS = {
+  ldap: '/sources/ldap/',
+  oauth: '/sources/oauth/',
+  saml: '/sources/saml/',
+  plex: '/sources/plex/',
+} as const;
+
+type SourceType = keyof typeof SOURCE_ENDPOINTS;
+
+const commonSourceArgs = {
+  name: z.string().describe('Source name'),
+  slug: z.string().describe('Source slug'),
+  enabled: booleanArg().describe('Whether the source is enabled').optional(),
+  authentication_flow: z
+    .string()
+    .describe('Flow UUID used when authenticating existing users')
+    .optional(),
+  enrollment_flow: z.string().describe('Flow UUID used to enroll new users').optional(),
+  policy_engine_mode: z.enum(['all', 'any']).describe('Policy engine mode').optional(),
+  user_matching_mode: z
+    .enum(['identifier', 'email_link', 'email_deny', 'username_link', 'username_deny'])
+    .describe('How the source matches incoming users to existing users')
+    .optional(),
+};
+
+const sourceArgs: Record<SourceType, ZodRawShape> = {
+  ldap: {
+    ...commonSourceArgs,
+    server_uri: z.string().describe('LDAP server URI, e.g. ldaps://ldap.example.com'),
+    bind_cn: z.string().describe('Bind DN').optional(),
+    bind_password: z.string().describe('Bind password').optional(),
+    start_tls: booleanArg().describe('Use StartTLS').optional(),
+    base_dn: z.string().describe('Base DN'),
+    additional_user_dn: z.string().describe('DN prepended to the base DN for users').optional(),
+    additional_group_dn: z.string().describe('DN prepended to the base DN for groups').optional(),
+    user_object_filter: z.string().describe('LDAP filter for user objects').optional(),
+    group_object_filter: z.string().describe('LDAP filter for group objects').optional(),
+    group_membership_field: z.string().describe('Attribute listing group members').optional(),
+    object_uniqueness_field: z
+      .string()
+      .describe('Attribute that uniquely identifies objects')
+      .optional(),
+    sync_users: booleanArg().describe('Synchronize users').optional(),
+    sync_users_password: booleanArg().describe('Write password changes back to LDAP').optional(),
+    sync_groups: booleanArg().describe('Synchronize groups').optional(),
+    sync_parent_group: z.string().describe('Group UUID synced groups are placed under').optional(),
+    user_property_mappings: z
+      .array(z.string())
+      .describe('Property mapping UUIDs applied to users')
+      .optional(),
+    group_property_mappings: z
+      .array(z.string())
+      .describe('Property mapping UUIDs applied to groups')
+      .optional(),
+  },
+  oauth: {
+    ...commonSourceArgs,
+    provider_type: z
+      .string()
+      .describe('Upstream provider type, e.g. github, google, azuread, openidconnect'),
+    consumer_key: z.string().describe('Client ID at the upstream provider'),
+    consumer_secret: z.string().describe('Client secret at the upstream provider'),
+    additional_scopes: z.string().describe('Additional scopes to request').optional(),
+    authorization_url: z.string().describe('Authorization URL override').optional(),
+    access_token_url: z.string().describe('Access token URL override').optional(),
+    profile_url: z.string().describe('Profile URL override').optional(),
+    oidc_well_known_url: z.string().describe('OIDC well-known configuration URL').optional(),
+    oidc_jwks_url: z.string().describe('OIDC JWKS URL').optional(),
+  },
+  saml: {
+    ...commonSourceArgs,
+    pre_authentication_flow: z
+      .string()
+      .describe('Flow UUID executed before the user is redirected to the IdP'),
+    sso_url: z.string().describe('IdP single sign-on URL'),
+    slo_url: z.string().describe('IdP single logout URL').optional(),
+    issuer: z.string().describe('Issuer (entity ID) used in requests').optional(),
+    binding_type: z
+      .enum(['REDIRECT', 'POST', 'POST_AUTO'])
+      .describe('Binding used to send requests to the IdP')
+      .optional(),
+    name_id_policy: z.string().describe('NameID policy URI').optional(),
+    signing_kp: z.string().describe('Certificate keypair UUID used to sign requests').optional(),
+    verification_kp: z
+      .string()
+      .describe('Certificate UUID used to verify IdP responses')
+      .optional(),
+    allow_idp_initiated: booleanArg().describe('Allow IdP-initiated logins').optional(),
+  },
+  plex: {
+    ...commonSourceArgs,
+    client_id: z.string().describe('Plex client identifier').optional(),
+    plex_token: z.string().describe('Plex token of the admin account'),
+    allowed_servers: z
+      .array(z.string())
+      .describe('Server identifiers users must have access to')
+      .optional(),
+    allow_friends: booleanArg().describe('Allow friends of the admin account').optional(),
+  },
+};
+
+const sourceLabels: Record<SourceType, string> = {
+  ldap: 'LDAP',
+  oauth: 'OAuth',
+  saml: 'SAML',
+  plex: 'Plex',
+};
+
+const sourceTypeArg = z.enum(Object.keys(SOURCE_ENDPOINTS) as [SourceType, ...SourceType[]]);
+
+export const sourceTools: ToolDefinition[] = [
+  {
+    name: 'authentik_list_sources',
+    description: 'List federation sources, optionally restricted to a single source type',
+    args: z.object({
+      source_type: sourceTypeArg
+        .describe('Only list sources of this type (returns type-specific fields)')
+        .optional(),
+      search: z.string().describe('Search term for filtering sources').optional(),
+      ordering: z.string().describe('Field to order by').optional(),
+      ...paginationArgs,
+      ...outputArgs,
+    }),
+    access: 'read',
+    endpoint: '/sources/all/',
+    resource: 'sources',
+    handler: listObjectsOfType(SOURCE_ENDPOINTS, 'source_type'),
+  },
+  {
+    name: 'authentik_get_source',
+    description: 'Get details of a specific source',
+    args: z.object({
+      source_slug: z.string().describe('Source slug to retrieve'),
+      source_type: sourceTypeArg.describe('Source type (returns type-specific fields)').optional(),
+      ...outputArgs,
+    }),
+    access: 'read',
+    endpoint: '/sources/all/',
+    resource: 'sources',
+    handler: getObjectOfType(SOURCE_ENDPOINTS, 'source_type', 'source_slug'),
+  },
+  ...(Object.keys(SOURCE_ENDPOINTS) as SourceType[]).flatMap((type): ToolDefinition[] => [
+    {
+      name: `authentik_create_${type}_source`,
+      description: `Create a new ${sourceLabels[type]} source`,
+      args: z.object(sourceArgs[type]),
+      access: 'write',
+      endpoint: SOURCE_ENDPOINTS[type],
+      handler: createObject(),
+      plan: planCreate(),
+    },
+    {
+      name: `authentik_update_${type}_source`,
+      description: `Update an existing ${sourceLabels[type]} source`,
+      args: z.object({
+        source_slug: z.string().describe('Source slug to update'),
+        ...optionalArgs(sourceArgs[type]),
+      }),
+      access: 'write',
+      endpoint: SOURCE_ENDPOINTS[type],
+      handler: updateObject('source_slug'),
+      plan: planUpdate('source_slug'),
+    },
+  ]),
+  {
+    name: 'authentik_delete_source',
+    description: 'Delete a source of any type',
+    args: z.object({ source_slug: z.string().describe('Source slug to delete') }),
+    access: 'write',
+    endpoint: '/sources/all/',
+    handler: deleteObject('source_slug', 'Source'),
+    plan: planDelete('source_slug'),
+  },
+  {
+    name: 'authentik_sync_source',
+    description: 'Trigger a sync of an LDAP source and report its sync status',
+    args: z.object({
+      source_slug: z.string().describe('LDAP source slug'),
+      trigger: booleanArg()
+        .describe('Start a sync; set to false to only report the current status')
+        .default(true),
+    }),
+    access: 'write',
+    endpoint: '/sources/ldap/',
+    handler: async (args, { client }) => {
+      const source = await client.request('GET', `/sources/ldap/${args.source_slug}/`);
+      let triggered = false;
+      if (args.trigger) {
+        if (!source.enabled) {
+          throw new ToolInputError(
+            `LDAP source ${args.source_slug} is disabled; enable it before syncing`
+          );
+        }
+        // authentik schedules a sync of an LDAP source whenever the source is saved
+        await client.request('PATCH', `/sources/ldap/${args.source_slug}/`, {
+          sync_users: source.sync_users,
+        });
+        triggered = true;
+      }
+      const status = await client.request('GET', `/sources/ldap/${args.source_slug}/sync/status/`);
+      return {
+        source_slug: args.source_slug,
+        triggered,
+        sync_users: source.sync_users,
+        sync_groups: source.sync_groups,
+        status,
+      };
+    },
+    plan: (args) => ({
+      action: 'action',
+      endpoint: `/sources/ldap/${args.source_slug}/`,
+      summary: args.trigger ? 'Start a sync of the LDAP source' : 'Report the sync status only',
+    }),
+  },
+];
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../registry.js';
+
+export const systemTools: ToolDefinition[] = [
+  {
+    name: 'authentik_get_system_config',
+    description: 'Get the system configuration of the Authentik instance',
+    args: z.object({}),
+    access: 'read',
+    endpoint: '/root/config/',
+    handler: (_args, { client }) => client.request('GET', '/root/config/'),
+  },
+  {
+    name: 'authentik_get_version_info',
+    description: 'Get Authentik version and build information',
+    args: z.object({}),
+    access: 'read',
+    endpoint: '/root/config/',
+    handler: async (_args, { client }) => {
+      try {
+        const config = await client.request('GET', '/root/config/');
+        return {
+          version: config.version || 'unknown',
+          build_hash: config.build_hash || 'unknown',
+        };
+      } catch {
+        return { error: 'Version information not accessible' };
+      }
+    },
+  },
+];
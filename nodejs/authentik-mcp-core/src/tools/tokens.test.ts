@@ -0,0 +1,67 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { AuthentikClient } from '../client.js';
+import { PermissionDeniedError, ToolInputError } from '../errors.js';
+import { InstanceRegistry } from '../instances.js';
+import { ToolCallArgs } from '../registry.js';
+import { parseToolArguments } from '../tool-args.js';
+import { tokenTools } from './tokens.js';
+
+const rotateTool = tokenTools.find(({ name }) => name === 'authentik_rotate_token')!;
+
+// A client holding one token; the replacement is created as `ci-2`
+function fakeClient(token: Record<string, unknown>) {
+  const request = jest.fn(
+    async (method: string, endpoint: string, _body?: unknown): Promise<any> => {
+      if (method === 'GET') {
+        return endpoint.endsWith('/view_key/') ? { key: 'secret' } : token;
+      }
+      return method === 'POST' ? { identifier: 'ci-2' } : {};
+    }
+  );
+  return { client: { request } as unknown as AuthentikClient, request };
+}
+
+function rotate(client: AuthentikClient, input: ToolCallArgs, allowTokenKeyView = true) {
+  const args = parseToolArguments(rotateTool.name, rotateTool.args, input);
+  return rotateTool.handler(args, {
+    client,
+    instances: {} as InstanceRegistry,
+    tool: rotateTool,
+    allowTokenKeyView,
+  }) as Promise<any>;
+}
+
+describe('authentik_rotate_token', () => {
+  it('returns the key of the replacement and revokes the old token', async () => {
+    const { client, request } = fakeClient({ identifier: 'ci', user: 3, expiring: false });
+    const result = await rotate(client, { identifier: 'ci', new_identifier: 'ci-2' });
+    expect(result).toMatchObject({ revoked: 'ci', key: 'secret' });
+    expect(request.mock.calls.map(([method, endpoint]) => `${method} ${endpoint}`)).toEqual([
+      'GET /core/tokens/ci/',
+      'POST /core/tokens/',
+      'GET /core/tokens/ci-2/view_key/',
+      'DELETE /core/tokens/ci/',
+    ]);
+  });
+
+  it('refuses to rotate when the new key could not be returned', async () => {
+    const { client, request } = fakeClient({ identifier: 'ci', expiring: false });
+    await expect(rotate(client, { identifier: 'ci' }, false)).rejects.toThrow(
+      PermissionDeniedError
+    );
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it('needs a new expiry for an expiring token', async () => {
+    const token = { identifier: 'ci', expiring: true, expires: '2020-01-01T00:00:00Z' };
+    const { client, request } = fakeClient(token);
+    await expect(rotate(client, { identifier: 'ci' })).rejects.toThrow(ToolInputError);
+
+    await rotate(client, { identifier: 'ci', expires: '2030-01-01T00:00:00Z' });
+    expect(request).toHaveBeenCalledWith(
+      'POST',
+      '/core/tokens/',
+      expect.objectContaining({ expiring: true, expires: '2030-01-01T00:00:00Z' })
+    );
+  });
+});
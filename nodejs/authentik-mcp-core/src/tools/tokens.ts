@@ -0,0 +1,192 @@
+import { z } from 'zod';
+import { AuthentikClient } from '../client.js';
+import { PermissionDeniedError, ToolInputError } from '../errors.js';
+import { outputArgs } from '../output.js';
+import { paginationArgs } from '../pagination.js';
+import {
+  createObject,
+  deleteObject,
+  listObjects,
+  planCreate,
+  planDelete,
+  planUpdate,
+  ToolCallArgs,
+  ToolContext,
+  ToolDefinition,
+  updateObject,
+} from '../registry.js';
+import { booleanArg, dateTimeArg, integerArg } from '../tool-args.js';
+
+/**
+ * Fetch the token a rotation replaces. Rotation revokes it, so the key of the
+ * replacement must be returnable and an expiring token needs a new expiry.
+ */
+async function tokenToRotate(args: ToolCallArgs, { client, allowTokenKeyView }: ToolContext) {
+  if (!allowTokenKeyView) {
+    throw new PermissionDeniedError(
+      'Rotating a token revokes it, but the key of its replacement can only be returned with --allow-token-key-view'
+    );
+  }
+  const token = await client.request('GET', `/core/tokens/${args.identifier}/`);
+  if (token.expiring && !args.expires) {
+    throw new ToolInputError(`Token ${token.identifier} expires; give expires for its replacement`);
+  }
+  return token;
+}
+
+// Fetch every token that expires within the given number of days, grouped by owner
+async function listExpiringTokens(client: AuthentikClient, days: number, includeExpired: boolean) {
+  const now = Date.now();
+  const cutoff = now + days * 24 * 60 * 60 * 1000;
+  const { results: tokens } = await client.listAll('/core/tokens/', {
+    expiring: true,
+    ordering: 'expires',
+  });
+
+  const owners = new Map<string, { user: number; username: string; tokens: any[] }>();
+  for (const token of tokens) {
+    if (!token.expires) continue;
+    const expires = new Date(token.expires).getTime();
+    if (expires > cutoff || (!includeExpired && expires <= now)) continue;
+
+    const username = token.user_obj?.username || `user-${token.user}`;
+    if (!owners.has(username)) {
+      owners.set(username, { user: token.user, username, tokens: [] });
+    }
+    owners.get(username)!.tokens.push({
+      identifier: token.identifier,
+      intent: token.intent,
+      description: token.description,
+      expires: token.expires,
+      expired: expires <= now,
+    });
+  }
+
+  return {
+    days,
+    total: [...owners.values()].reduce((sum, owner) => sum + owner.tokens.length, 0),
+    owners: [...owners.values()],
+  };
+}
+
+export const tokenTools: ToolDefinition[] = [
+  {
+    name: 'authentik_list_tokens',
+    description: 'List API tokens',
+    args: z.object({
+      user: integerArg().describe('Filter by user ID').optional(),
+      identifier: z.string().describe('Filter by token identifier').optional(),
+      ordering: z.string().describe('Field to order by').optional(),
+      ...paginationArgs,
+      ...outputArgs,
+    }),
+    access: 'read',
+    endpoint: '/core/tokens/',
+    resource: 'tokens',
+    handler: listObjects(),
+  },
+  {
+    name: 'authentik_create_token',
+    description: 'Create a new API token',
+    args: z.object({
+      identifier: z.string().describe('Token identifier'),
+      user: integerArg().describe('User ID for the token'),
+      description: z.string().describe('Token description').optional(),
+      expires: dateTimeArg().describe('Token expiration date').optional(),
+      expiring: booleanArg().describe('Whether token expires').default(true),
+    }),
+    access: 'write',
+    endpoint: '/core/tokens/',
+    handler: createObject(),
+    plan: planCreate(),
+  },
+  {
+    name: 'authentik_update_token',
+    description: 'Update the description or expiry of an existing token',
+    args: z.object({
+      identifier: z.string().describe('Token identifier to update'),
+      description: z.string().describe('Token description').optional(),
+      expires: dateTimeArg().describe('Token expiration date').optional(),
+      expiring: booleanArg().describe('Whether token expires').optional(),
+    }),
+    access: 'write',
+    endpoint: '/core/tokens/',
+    handler: updateObject('identifier'),
+    plan: planUpdate('identifier'),
+  },
+  {
+    name: 'authentik_delete_token',
+    description: 'Revoke (delete) a token',
+    args: z.object({ identifier: z.string().describe('Token identifier to delete') }),
+    access: 'write',
+    endpoint: '/core/tokens/',
+    handler: deleteObject('identifier', 'Token'),
+    plan: planDelete('identifier'),
+  },
+  {
+    name: 'authentik_rotate_token',
+    description:
+      'Replace a token with a new one for the same user, intent and description, return its key, then revoke the old one. Needs --allow-token-key-view',
+    args: z.object({
+      identifier: z.string().describe('Token identifier to rotate'),
+      new_identifier: z
+        .string()
+        .describe('Identifier for the replacement (defaults to a timestamped identifier)')
+        .optional(),
+      expires: dateTimeArg()
+        .describe('Expiration date for the replacement; required when the old token expires')
+        .optional(),
+    }),
+    access: 'write',
+    endpoint: '/core/tokens/',
+    handler: async (args, context) => {
+      const { client } = context;
+      const oldToken = await tokenToRotate(args, context);
+      const newIdentifier =
+        args.new_identifier ||
+        `${oldToken.identifier}-${new Date()
+          .toISOString()
+          .replace(/[-:.TZ]/g, '')
+          .slice(0, 14)}`;
+
+      const newToken = await client.request('POST', '/core/tokens/', {
+        identifier: newIdentifier,
+        user: oldToken.user,
+        intent: oldToken.intent,
+        description: oldToken.description,
+        expiring: oldToken.expiring,
+        expires: args.expires,
+      });
+      const { key } = await client.request('GET', `/core/tokens/${newToken.identifier}/view_key/`);
+      await client.request('DELETE', `/core/tokens/${oldToken.identifier}/`);
+
+      return {
+        message: `Token ${oldToken.identifier} rotated to ${newToken.identifier}`,
+        revoked: oldToken.identifier,
+        token: newToken,
+        key,
+      };
+    },
+    plan: async (args, context) => {
+      await tokenToRotate(args, context);
+      return {
+        action: 'action',
+        endpoint: `/core/tokens/${args.identifier}/`,
+        summary: 'Create a replacement token and revoke this one',
+      };
+    },
+  },
+  {
+    name: 'authentik_list_expiring_tokens',
+    description: 'Report tokens expiring within the next N days, grouped by owner',
+    args: z.object({
+      days: integerArg().describe('Look-ahead window in days').default(30),
+      include_expired: booleanArg()
+        .describe('Also include tokens that have already expired')
+        .default(false),
+    }),
+    access: 'read',
+    endpoint: '/core/tokens/',
+    handler: (args, { client }) => listExpiringTokens(client, args.days, args.include_expired),
+  },
+];
@@ -0,0 +1,170 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { AuthentikClient } from '../client.js';
+import { InstanceRegistry } from '../instances.js';
+import { ToolCallArgs, ToolDefinition } from '../registry.js';
+import { parseToolArguments } from '../tool-args.js';
+import { userImportExportTools } from './user-import-export.js';
+
+const importTool = userImportExportTools.find(({ name }) => name === 'authentik_import_users')!;
+const exportTool = userImportExportTools.find(({ name }) => name === 'authentik_export_users')!;
+
+const GROUPS = [
+  { pk: 'g-staff', name: 'Staff' },
+  { pk: 'g-admins', name: 'Admins' },
+];
+const EXISTING = [{ pk: 7, username: 'bob', groups: ['g-staff'], attributes: { team: 'ops' } }];
+
+// A client with the groups and users above; counts lookups running at the same time
+function fakeClient() {
+  let inFlight = 0;
+  const stats = { peakLookups: 0 };
+  const request = jest.fn(
+    async (method: string, _endpoint: string, _body?: unknown, params?: any): Promise<any> => {
+      if (method !== 'GET') {
+        return { pk: 99 };
+      }
+      inFlight++;
+      stats.peakLookups = Math.max(stats.peakLookups, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 2));
+      inFlight--;
+      return { results: EXISTING.filter((user) => user.username === params.username) };
+    }
+  );
+  const listAll = jest.fn(async (endpoint: string) => ({
+    count: 0,
+    returned: 0,
+    truncated: false,
+    pages_fetched: 1,
+    results: endpoint === '/core/groups/' ? GROUPS : [],
+  }));
+  const client = { request, listAll } as unknown as AuthentikClient;
+  return { client, request, stats };
+}
+
+function run(tool: ToolDefinition, client: AuthentikClient, input: ToolCallArgs): Promise<any> {
+  const args = parseToolArguments(tool.name, tool.args, input);
+  return tool.handler(args, { client, instances: {} as InstanceRegistry, tool });
+}
+
+describe('authentik_import_users', () => {
+  it.each([0, -1, 51])('rejects batch_size %p', (batchSize) => {
+    expect(() =>
+      parseToolArguments(importTool.name, importTool.args, { content: '', batch_size: batchSize })
+    ).toThrow(/batch_size/);
+  });
+
+  it('reports the validation of every row in the preview without writing', async () => {
+    const { client, request } = fakeClient();
+    const args = parseToolArguments(importTool.name, importTool.args, {
+      content:
+        'Login,Full Name,email,groups,Dept\nalice,Alice,alice@example.com,Staff;Admins,IT\n' +
+        'bob,,,Admins,\ncarol,Carol,,Nope,\nalice,Alice 2,,,\n',
+      column_mapping: { Login: 'username', 'Full Name': 'name' },
+    });
+    const plan: any = await importTool.plan!(args, {
+      client,
+      instances: {} as InstanceRegistry,
+      tool: importTool,
+    });
+
+    expect(plan.report).toMatchObject({ rows: 4, create: 3, update: 1, invalid: 2 });
+    expect(plan.report.ignored_columns).toEqual(['Dept']);
+    expect(plan.report.results.map((row: any) => row.errors)).toEqual([
+      undefined,
+      undefined,
+      ['groups: Unknown group Nope'],
+      ['username: alice appears more than once'],
+    ]);
+    expect(plan.blocked).toMatch(/fix the rows with errors/);
+    expect(request.mock.calls.every(([method]) => method === 'GET')).toBe(true);
+  });
+
+  it('reports JSON entries that are not objects as row errors', async () => {
+    const { client } = fakeClient();
+    const result = await run(importTool, client, {
+      content: '[null, ["dave"], "erin", {"username": "frank", "name": "Frank"}]',
+    });
+    expect(result.imported).toBe(false);
+    expect(result.results.map((row: any) => row.errors?.[0])).toEqual([
+      'Expected an object of user fields',
+      'Expected an object of user fields',
+      'Expected an object of user fields',
+      undefined,
+    ]);
+  });
+
+  it('writes nothing while any row has errors', async () => {
+    const { client, request } = fakeClient();
+    const result = await run(importTool, client, {
+      content: 'username,name,email\nalice,Alice,not-an-email\ndave,Dave,\n',
+    });
+    expect(result).toMatchObject({ imported: false, invalid: 1 });
+    expect(request.mock.calls.some(([method]) => method !== 'GET')).toBe(false);
+  });
+
+  it('creates new users and merges groups and attributes of existing ones', async () => {
+    const { client, request } = fakeClient();
+    const result = await run(importTool, client, {
+      content: JSON.stringify([
+        { username: 'alice', name: 'Alice', groups: 'Staff' },
+        { username: 'bob', groups: ['Admins'], attributes: { site: 'berlin' } },
+      ]),
+    });
+
+    expect(result.results.map((row: any) => row.status)).toEqual(['created', 'updated']);
+    expect(request).toHaveBeenCalledWith('POST', '/core/users/', {
+      username: 'alice',
+      name: 'Alice',
+      groups: ['g-staff'],
+    });
+    expect(request).toHaveBeenCalledWith('PATCH', '/core/users/7/', {
+      username: 'bob',
+      groups: ['g-staff', 'g-admins'],
+      attributes: { team: 'ops', site: 'berlin' },
+    });
+  });
+
+  it('looks up at most batch_size users at the same time', async () => {
+    const { client, stats } = fakeClient();
+    const rows = Array.from({ length: 9 }, (_, i) => `user${i},User ${i}`);
+    await run(importTool, client, {
+      content: ['username,name', ...rows].join('\n'),
+      batch_size: 3,
+    });
+    expect(stats.peakLookups).toBe(3);
+  });
+
+  it('rejects unknown mapping targets and broken CSV', async () => {
+    const { client } = fakeClient();
+    await expect(
+      run(importTool, client, { content: 'a\n1', column_mapping: { a: 'login' } })
+    ).rejects.toThrow('Unknown user fields in column_mapping: login');
+    await expect(run(importTool, client, { content: 'a\n"1' })).rejects.toThrow('Invalid CSV');
+  });
+});
+
+describe('authentik_export_users', () => {
+  const users = [
+    {
+      pk: 7,
+      username: 'bob',
+      name: 'Bob, Jr',
+      email: 'bob@example.com',
+      is_active: true,
+      groups_obj: GROUPS,
+    },
+  ];
+  const client = {
+    listAll: async () => ({ count: 1, returned: 1, truncated: false, results: users }),
+  } as unknown as AuthentikClient;
+
+  it('exports CSV with group names', async () => {
+    const result = await run(exportTool, client, { columns: ['username', 'name', 'groups'] });
+    expect(result.content).toBe('username,name,groups\nbob,"Bob, Jr",Staff;Admins');
+  });
+
+  it('exports JSON with the requested columns', async () => {
+    const result = await run(exportTool, client, { format: 'json', columns: ['pk', 'groups'] });
+    expect(JSON.parse(result.content)).toEqual([{ pk: 7, groups: ['Staff', 'Admins'] }]);
+  });
+});
@@ -0,0 +1,321 @@
+import { z } from 'zod';
+import { AuthentikClient } from '../client.js';
+import { parseCsv, toCsv } from '../csv.js';
+import { describeError, ToolInputError } from '../errors.js';
+import { MAX_FETCH_ALL_ITEMS } from '../pagination.js';
+import { ToolCallArgs, ToolDefinition } from '../registry.js';
+import { booleanArg, integerArg } from '../tool-args.js';
+import { userFilterArgs } from './users.js';
+
+const FORMATS = ['csv', 'json'] as const;
+
+// Most users an import creates, updates or looks up at the same time
+const MAX_BATCH_SIZE = 50;
+
+// User fields an import can set; groups are given by name
+const IMPORT_FIELDS = ['username', 'name', 'email', 'is_active', 'path', 'groups', 'attributes'];
+
+// Columns of an export unless the call names its own
+const EXPORT_COLUMNS = ['pk', 'username', 'name', 'email', 'is_active', 'last_login', 'groups'];
+
+// CSV cells hold lists as `a;b` and objects as JSON
+const splitList = (value: unknown) =>
+  typeof value === 'string'
+    ? value
+        .split(';')
+        .map((item) => item.trim())
+        .filter(Boolean)
+    : value;
+
+const parseJson = (value: unknown) => {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+// One imported user after column mapping; empty cells count as missing
+const ImportRowSchema = z.object({
+  username: z.string().trim().min(1),
+  name: z.string().trim().optional(),
+  email: z.string().trim().email().optional(),
+  is_active: booleanArg().optional(),
+  path: z.string().trim().optional(),
+  groups: z.preprocess(splitList, z.array(z.string())).optional(),
+  attributes: z.preprocess(parseJson, z.record(z.unknown())).optional(),
+});
+
+interface ImportRow {
+  /** Position of the record in the input, starting at 1 */
+  row: number;
+  username?: string;
+  action: 'create' | 'update';
+  errors: string[];
+  user: Record<string, any>;
+  existing?: any;
+  status?: 'created' | 'updated' | 'failed';
+}
+
+// CSV records are objects already; JSON entries that are not are reported as row errors
+function readRecords(content: string, format?: string): unknown[] {
+  const json = format ? format === 'json' : /^\s*\[/.test(content);
+  if (!json) {
+    try {
+      return parseCsv(content);
+    } catch (error: unknown) {
+      throw new ToolInputError(error instanceof Error ? error.message : 'Invalid CSV');
+    }
+  }
+  const records = parseJson(content);
+  if (!Array.isArray(records)) {
+    throw new ToolInputError('JSON content must be an array of user objects');
+  }
+  return records;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Run `action` for every item, at most `size` at a time, and return the results in order
+async function inBatches<T, R>(
+  items: T[],
+  size: number,
+  action: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = [];
+  for (let start = 0; start < items.length; start += size) {
+    const batch = items.slice(start, start + size);
+    results.push(...(await Promise.all(batch.map((item, i) => action(item, start + i)))));
+  }
+  return results;
+}
+
+// Rename the fields of a record according to the mapping, dropping everything that is no user field
+function mapRecord(
+  record: Record<string, unknown>,
+  mapping: Record<string, string>,
+  ignored: Set<string>
+): Record<string, unknown> {
+  const mapped: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    const field = mapping[key] ?? key;
+    if (!IMPORT_FIELDS.includes(field)) {
+      ignored.add(key);
+    } else if (value !== '' && value !== null && value !== undefined) {
+      mapped[field] = value;
+    }
+  }
+  return mapped;
+}
+
+/**
+ * Parse and validate an import without changing anything: map the columns,
+ * resolve group names and find the users that already exist.
+ */
+async function prepareImport(args: ToolCallArgs, client: AuthentikClient) {
+  const mapping: Record<string, string> = args.column_mapping ?? {};
+  const unknownFields = Object.values(mapping).filter((field) => !IMPORT_FIELDS.includes(field));
+  if (unknownFields.length > 0) {
+    throw new ToolInputError(
+      `Unknown user fields in column_mapping: ${unknownFields.join(', ')}. Expected one of ${IMPORT_FIELDS.join(', ')}`
+    );
+  }
+
+  const ignored = new Set<string>();
+  const records = readRecords(args.content, args.format).map((record) =>
+    isRecord(record) ? mapRecord(record, mapping, ignored) : null
+  );
+  const { results: groups } = await client.listAll('/core/groups/');
+  const groupIds = new Map<string, string>(
+    groups.flatMap((group) => [
+      [group.name, group.pk],
+      [group.pk, group.pk],
+    ])
+  );
+
+  const seen = new Set<string>();
+  // Existing users are looked up one batch at a time, like they are imported
+  const rows = await inBatches(
+    records,
+    args.batch_size,
+    async (record, index): Promise<ImportRow> => {
+      if (!record) {
+        return {
+          row: index + 1,
+          action: 'create',
+          errors: ['Expected an object of user fields'],
+          user: {},
+        };
+      }
+      const parsed = ImportRowSchema.safeParse(record);
+      if (!parsed.success) {
+        return {
+          row: index + 1,
+          username: typeof record.username === 'string' ? record.username : undefined,
+          action: 'create',
+          errors: parsed.error.issues.map(({ path, message }) => `${path.join('.')}: ${message}`),
+          user: record,
+        };
+      }
+
+      const { groups: groupNames = [], ...user } = parsed.data;
+      const errors = groupNames
+        .filter((name) => !groupIds.has(name))
+        .map((name) => `groups: Unknown group ${name}`);
+      if (seen.has(user.username)) {
+        errors.push(`username: ${user.username} appears more than once`);
+      }
+      seen.add(user.username);
+
+      const { results: matches } = await client.request('GET', '/core/users/', undefined, {
+        username: user.username,
+      });
+      const existing = matches.find((match: any) => match.username === user.username);
+      if (!existing && !user.name) {
+        errors.push('name: Required for new users');
+      }
+      return {
+        row: index + 1,
+        username: user.username,
+        action: existing ? 'update' : 'create',
+        errors,
+        user: { ...user, groups: groupNames.map((name) => groupIds.get(name)) },
+        existing,
+      };
+    }
+  );
+
+  return { rows, ignoredColumns: [...ignored] };
+}
+
+function importReport(rows: ImportRow[], ignoredColumns: string[]) {
+  return {
+    rows: rows.length,
+    create: rows.filter((row) => row.action === 'create').length,
+    update: rows.filter((row) => row.action === 'update').length,
+    invalid: rows.filter((row) => row.errors.length > 0).length,
+    ignored_columns: ignoredColumns,
+    results: rows.map(({ row, username, action, status, errors }) => ({
+      row,
+      username,
+      action,
+      ...(status ? { status } : {}),
+      ...(errors.length > 0 ? { errors } : {}),
+    })),
+  };
+}
+
+// Existing users keep their groups and attributes; the import adds to them
+async function importRow(client: AuthentikClient, { user, existing }: ImportRow) {
+  if (!existing) {
+    return client.request('POST', '/core/users/', user);
+  }
+  const { groups, attributes, ...fields } = user;
+  return client.request('PATCH', `/core/users/${existing.pk}/`, {
+    ...fields,
+    ...(groups.length > 0 ? { groups: [...new Set([...existing.groups, ...groups])] } : {}),
+    ...(attributes ? { attributes: { ...existing.attributes, ...attributes } } : {}),
+  });
+}
+
+function exportRecord(user: any, format: string) {
+  const groups = (user.groups_obj ?? []).map((group: any) => group.name);
+  return { ...user, groups: format === 'csv' ? groups.join(';') : groups };
+}
+
+export const userImportExportTools: ToolDefinition[] = [
+  {
+    name: 'authentik_import_users',
+    description:
+      'Create or update users from CSV or JSON, e.g. an HR export. A call without confirmation_token only validates every row and, when no row has errors, returns a confirmation_token; call again with it to import',
+    args: z.object({
+      content: z
+        .string()
+        .describe('CSV with a header row, or a JSON array of objects, one user each'),
+      format: z.enum(FORMATS).describe('Content format (detected if omitted)').optional(),
+      column_mapping: z
+        .record(z.string())
+        .describe(
+          `User field for each column or key that is not named after one, e.g. {"E-Mail": "email"}. Fields: ${IMPORT_FIELDS.join(', ')}`
+        )
+        .optional(),
+      batch_size: integerArg({ min: 1, max: MAX_BATCH_SIZE })
+        .describe('Users looked up, created or updated at the same time')
+        .default(10),
+    }),
+    access: 'write',
+    endpoint: '/core/users/',
+    alwaysConfirm: true,
+    handler: async (args, { client }) => {
+      const { rows, ignoredColumns } = await prepareImport(args, client);
+      if (rows.some((row) => row.errors.length > 0)) {
+        return {
+          imported: false,
+          message: 'Nothing was imported: fix the rows with errors and try again',
+          ...importReport(rows, ignoredColumns),
+        };
+      }
+
+      await inBatches(rows, args.batch_size, async (row) => {
+        try {
+          await importRow(client, row);
+          row.status = row.existing ? 'updated' : 'created';
+        } catch (error: unknown) {
+          row.status = 'failed';
+          row.errors.push(describeError(error).error);
+        }
+      });
+      return { imported: true, ...importReport(rows, ignoredColumns) };
+    },
+    plan: async (args, { client }) => {
+      const { rows, ignoredColumns } = await prepareImport(args, client);
+      const report = importReport(rows, ignoredColumns);
+      return {
+        action: 'action',
+        summary: `Create ${report.create} and update ${report.update} users; ${report.invalid} of ${report.rows} rows have errors`,
+        report,
+        ...(report.invalid > 0
+          ? { blocked: 'Nothing can be imported: fix the rows with errors and preview again' }
+          : {}),
+      };
+    },
+  },
+  {
+    name: 'authentik_export_users',
+    description:
+      "Export users as CSV or JSON, with the filters of authentik_list_users; groups are exported by name. CSV cells that a spreadsheet would run as a formula start with '",
+    args: z.object({
+      ...userFilterArgs,
+      format: z.enum(FORMATS).describe('Export format').default('csv'),
+      columns: z
+        .array(z.string())
+        .describe(`User fields to export (default: ${EXPORT_COLUMNS.join(', ')})`)
+        .optional(),
+    }),
+    access: 'read',
+    endpoint: '/core/users/',
+    handler: async ({ format, columns = EXPORT_COLUMNS, ...filters }, { client }) => {
+      const { count, returned, truncated, results } = await client.listAll(
+        '/core/users/',
+        filters,
+        MAX_FETCH_ALL_ITEMS
+      );
+      const records = results.map((user) => exportRecord(user, format));
+      const content =
+        format === 'csv'
+          ? toCsv(columns, records)
+          : JSON.stringify(
+              records.map((record) =>
+                Object.fromEntries(columns.map((column: string) => [column, record[column]]))
+              ),
+              null,
+              2
+            );
+      return { format, count, exported: returned, truncated, content };
+    },
+  },
+];
@@ -0,0 +1,258 @@
+import { z } from 'zod';
+import { AuthentikClient } from '../client.js';
+import { ToolInputError } from '../errors.js';
+import { outputArgs } from '../output.js';
+import { paginationArgs } from '../pagination.js';
+import {
+  createObject,
+  deleteObject,
+  getObject,
+  listObjects,
+  planCreate,
+  planDelete,
+  planUpdate,
+  ToolDefinition,
+  updateObject,
+} from '../registry.js';
+import { booleanArg, integerArg } from '../tool-args.js';
+
+// Admin endpoints for the authenticator device types a user can enroll
+const AUTHENTICATOR_DEVICE_TYPES = ['duo', 'sms', 'static', 'totp', 'webauthn'] as const;
+
+// Fetch every authenticated session of a user
+export async function listUserSessions(client: AuthentikClient, userId: unknown) {
+  const user = await client.request('GET', `/core/users/${userId}/`);
+  const { results: sessions } = await client.listAll('/core/authenticated_sessions/', {
+    user__username: user.username,
+  });
+
+  return { user, sessions };
+}
+
+// Fetch the MFA devices of a user, with the device type used by the admin endpoints
+export async function listUserAuthenticators(client: AuthentikClient, userId: unknown) {
+  const devices = await client.request('GET', '/authenticators/admin/all/', undefined, {
+    user: userId,
+  });
+  return (Array.isArray(devices) ? devices : devices.results).map((device: any) => ({
+    ...device,
+    device_type: /authenticator_(\w+)\./.exec(device.type)?.[1] || device.type,
+  }));
+}
+
+// Filters of authentik_list_users, shared with authentik_export_users
+export const userFilterArgs = {
+  search: z.string().describe('Search term for filtering users').optional(),
+  is_active: booleanArg().describe('Filter by active status').optional(),
+  group: z.string().describe('Filter by group membership').optional(),
+  ordering: z.string().describe('Field to order by').optional(),
+};
+
+export const userTools: ToolDefinition[] = [
+  {
+    name: 'authentik_list_users',
+    description: 'List all users in Authentik',
+    args: z.object({
+      ...userFilterArgs,
+      ...paginationArgs,
+      ...outputArgs,
+    }),
+    access: 'read',
+    endpoint: '/core/users/',
+    resource: 'users',
+    aliases: ['authentik_list_users_info'],
+    handler: listObjects(),
+  },
+  {
+    name: 'authentik_get_user',
+    description: 'Get details of a specific user',
+    args: z.object({ user_id: integerArg().describe('User ID to retrieve'), ...outputArgs }),
+    access: 'read',
+    endpoint: '/core/users/',
+    resource: 'users',
+    aliases: ['authentik_get_user_info'],
+    handler: getObject('user_id'),
+  },
+  {
+    name: 'authentik_create_user',
+    description: 'Create a new user in Authentik',
+    args: z.object({
+      username: z.string().describe('Username'),
+      email: z.string().describe('Email address'),
+      name: z.string().describe('Full name'),
+      password: z.string().describe('Password').optional(),
+      is_active: booleanArg().describe('Whether user is active').default(true),
+      groups: z.array(z.string()).describe('Group UUIDs to assign').optional(),
+    }),
+    access: 'write',
+    endpoint: '/core/users/',
+    handler: createObject(),
+    plan: planCreate(),
+  },
+  {
+    name: 'authentik_update_user',
+    description: 'Update an existing user',
+    args: z.object({
+      user_id: integerArg().describe('User ID to update'),
+      username: z.string().describe('Username').optional(),
+      email: z.string().describe('Email address').optional(),
+      name: z.string().describe('Full name').optional(),
+      is_active: booleanArg().describe('Whether user is active').optional(),
+      groups: z.array(z.string()).describe('Group UUIDs to assign').optional(),
+    }),
+    access: 'write',
+    endpoint: '/core/users/',
+    handler: updateObject('user_id'),
+    plan: planUpdate('user_id'),
+  },
+  {
+    name: 'authentik_delete_user',
+    description: 'Delete a user from Authentik',
+    args: z.object({ user_id: integerArg().describe('User ID to delete') }),
+    access: 'write',
+    endpoint: '/core/users/',
+    handler: deleteObject('user_id', 'User'),
+    plan: planDelete('user_id'),
+  },
+  {
+    name: 'authentik_set_user_password',
+    description: "Set a user's password",
+    args: z.object({
+      user_id: integerArg().describe('User ID'),
+      password: z.string().describe('New password'),
+    }),
+    access: 'write',
+    endpoint: '/core/users/',
+    handler: async (args, { client }) => {
+      await client.request('POST', `/core/users/${args.user_id}/set_password/`, {
+        password: args.password,
+      });
+      return { message: `Password for user ${args.user_id} updated successfully` };
+    },
+    plan: (args) => ({
+      action: 'action',
+      endpoint: `/core/users/${args.user_id}/`,
+      changes: { password: args.password },
+    }),
+  },
+  {
+    name: 'authentik_create_recovery_link',
+    description: 'Create a one-time recovery link for a user, optionally emailing it to them',
+    args: z.object({
+      user_id: integerArg().describe('User ID'),
+      send_email: booleanArg()
+        .describe('Email the link to the user instead of returning it')
+        .default(false),
+      email_stage: z
+        .string()
+        .describe('Email stage UUID used to send the link (required with send_email)')
+        .optional(),
+    }),
+    access: 'write',
+    endpoint: '/core/users/',
+    handler: async (args, { client }) => {
+      if (!args.send_email) {
+        return client.request('POST', `/core/users/${args.user_id}/recovery/`);
+      }
+      if (!args.email_stage) {
+        throw new ToolInputError('email_stage is required when send_email is set');
+      }
+      await client.request('POST', `/core/users/${args.user_id}/recovery_email/`, undefined, {
+        email_stage: args.email_stage,
+      });
+      return { message: `Recovery link emailed to user ${args.user_id}` };
+    },
+    plan: (args) => ({
+      action: 'action',
+      endpoint: `/core/users/${args.user_id}/`,
+      summary: args.send_email
+        ? 'Email a recovery link to the user'
+        : 'Create a recovery link for the user',
+    }),
+  },
+  {
+    name: 'authentik_list_user_sessions',
+    description: 'List the authenticated sessions of a user',
+    args: z.object({ user_id: integerArg().describe('User ID') }),
+    access: 'read',
+    endpoint: '/core/authenticated_sessions/',
+    handler: async (args, { client }) => {
+      const { user, sessions } = await listUserSessions(client, args.user_id);
+      return { user_id: user.pk, username: user.username, count: sessions.length, sessions };
+    },
+  },
+  {
+    name: 'authentik_revoke_user_sessions',
+    description: 'Terminate one or all authenticated sessions of a user',
+    args: z.object({
+      user_id: integerArg().describe('User ID'),
+      session_id: z
+        .string()
+        .describe('Only revoke this session UUID (defaults to all sessions of the user)')
+        .optional(),
+    }),
+    access: 'write',
+    endpoint: '/core/authenticated_sessions/',
+    handler: async (args, { client }) => {
+      const { user, sessions } = await listUserSessions(client, args.user_id);
+      const targets = args.session_id
+        ? sessions.filter((session) => session.uuid === args.session_id)
+        : sessions;
+      if (args.session_id && targets.length === 0) {
+        throw new ToolInputError(
+          `Session ${args.session_id} does not belong to user ${user.username}`
+        );
+      }
+      for (const session of targets) {
+        await client.request('DELETE', `/core/authenticated_sessions/${session.uuid}/`);
+      }
+      return {
+        user_id: user.pk,
+        username: user.username,
+        revoked: targets.map((session) => session.uuid),
+        message: `Revoked ${targets.length} session(s) for user ${user.username}`,
+      };
+    },
+    plan: (args) => ({
+      action: 'action',
+      endpoint: `/core/users/${args.user_id}/`,
+      summary: args.session_id
+        ? `Revoke session ${args.session_id}`
+        : 'Revoke all sessions of the user',
+    }),
+  },
+  {
+    name: 'authentik_list_user_authenticators',
+    description: 'List the MFA devices (TOTP, WebAuthn, static, Duo, SMS) enrolled by a user',
+    args: z.object({ user_id: integerArg().describe('User ID') }),
+    access: 'read',
+    endpoint: '/authenticators/admin/all/',
+    handler: async (args, { client }) => ({
+      user_id: args.user_id,
+      devices: await listUserAuthenticators(client, args.user_id),
+    }),
+  },
+  {
+    name: 'authentik_delete_user_authenticator',
+    description: 'Remove an MFA device from a user',
+    args: z.object({
+      device_type: z
+        .enum(AUTHENTICATOR_DEVICE_TYPES)
+        .describe('Device type as returned by authentik_list_user_authenticators'),
+      device_id: integerArg().describe('Device ID to delete'),
+    }),
+    access: 'write',
+    endpoint: '/authenticators/admin/',
+    handler: async (args, { client }) => {
+      await client.request(
+        'DELETE',
+        `/authenticators/admin/${args.device_type}/${args.device_id}/`
+      );
+      return { message: `${args.device_type} device ${args.device_id} deleted successfully` };
+    },
+    plan: (args) => ({
+      action: 'delete',
+      endpoint: `/authenticators/admin/${args.device_type}/${args.device_id}/`,
+    }),
+  },
+];
@@ -0,0 +1,184 @@
+import { createHash, randomUUID, timingSafeEqual } from 'node:crypto';
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from 'node:http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export const TRANSPORTS = ['stdio', 'http'] as const;
+
+export type TransportType = (typeof TRANSPORTS)[number];
+
+export interface ServeOptions {
+  transport: TransportType;
+  /** Interface and port the HTTP transport listens on. */
+  host: string;
+  port: number;
+  /** Bearer token HTTP clients have to present; required for the HTTP transport. */
+  authToken?: string;
+}
+
+// Largest JSON-RPC request body accepted over HTTP (flow imports can be sizeable)
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// How long open connections may take to finish after a shutdown signal
+const SHUTDOWN_TIMEOUT_MS = 5000;
+
+/**
+ * Serve MCP over stdio or HTTP. Every HTTP session gets its own server from
+ * `createServer`. The HTTP transport serves:
+ * - `/mcp` - Streamable HTTP
+ * - `/sse` and `/messages` - legacy HTTP+SSE
+ * - `/healthz` - unauthenticated health check
+ */
+export async function serve(createServer: () => Server, options: ServeOptions): Promise<void> {
+  if (options.transport === 'stdio') {
+    await createServer().connect(new StdioServerTransport());
+    return;
+  }
+
+  if (!options.authToken) {
+    throw new Error('The HTTP transport requires an auth token (--auth-token or MCP_AUTH_TOKEN)');
+  }
+  const expectedDigest = digest(`Bearer ${options.authToken}`);
+
+  const streamableSessions = new Map<string, StreamableHTTPServerTransport>();
+  const sseSessions = new Map<string, SSEServerTransport>();
+
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse) => {
+    const sessionId = req.headers['mcp-session-id'];
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    let transport = typeof sessionId === 'string' ? streamableSessions.get(sessionId) : undefined;
+    if (!transport) {
+      if (sessionId) {
+        return sendJsonRpcError(res, 404, 'Session not found');
+      }
+      if (req.method !== 'POST' || !isInitializeRequest(body)) {
+        return sendJsonRpcError(res, 400, 'No session; send an initialize request first');
+      }
+      const created = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          streamableSessions.set(id, created);
+        },
+      });
+      created.onclose = () => {
+        if (created.sessionId) {
+          streamableSessions.delete(created.sessionId);
+        }
+      };
+      await createServer().connect(created);
+      transport = created;
+    }
+
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSse = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    if (req.method === 'GET' && url.pathname === '/sse') {
+      const transport = new SSEServerTransport('/messages', res);
+      sseSessions.set(transport.sessionId, transport);
+      res.on('close', () => sseSessions.delete(transport.sessionId));
+      await createServer().connect(transport);
+      return;
+    }
+
+    const transport = sseSessions.get(url.searchParams.get('sessionId') ?? '');
+    if (req.method !== 'POST' || !transport) {
+      return sendJsonRpcError(res, 404, 'Session not found');
+    }
+    await transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const httpServer = createHttpServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    try {
+      if (url.pathname === '/healthz') {
+        return sendJson(res, 200, {
+          status: 'ok',
+          sessions: streamableSessions.size + sseSessions.size,
+        });
+      }
+
+      const authorization = req.headers.authorization ?? '';
+      if (!timingSafeEqual(digest(authorization), expectedDigest)) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        return sendJson(res, 401, { error: 'Unauthorized' });
+      }
+
+      if (url.pathname === '/mcp') {
+        await handleStreamable(req, res);
+      } else if (url.pathname === '/sse' || url.pathname === '/messages') {
+        await handleSse(req, res, url);
+      } else {
+        sendJson(res, 404, { error: 'Not found' });
+      }
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`HTTP request failed: ${message}`);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, error instanceof BodyError ? error.status : 500, message);
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, resolve);
+  });
+  console.error(`Listening on http://${options.host}:${options.port} (/mcp, /sse, /healthz)`);
+
+  const shutdown = async (signal: string) => {
+    console.error(`Received ${signal}, shutting down`);
+    httpServer.close(() => process.exit(0));
+    await Promise.allSettled(
+      [...streamableSessions.values(), ...sseSessions.values()].map((transport) =>
+        transport.close()
+      )
+    );
+    httpServer.closeIdleConnections();
+    setTimeout(() => process.exit(0), SHUTDOWN_TIMEOUT_MS).unref();
+  };
+  process.once('SIGINT', () => void shutdown('SIGINT'));
+  process.once('SIGTERM', () => void shutdown('SIGTERM'));
+}
+
+class BodyError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new BodyError(413, 'Request body too large');
+    }
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new BodyError(400, 'Request body is not valid JSON');
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string) {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code: -32000, message }, id: null });
+}
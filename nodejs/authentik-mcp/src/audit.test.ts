@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AuditLog, recordRequest, recordResult } from './audit.js';
+
+const ok = (text = '{}') => ({ content: [{ type: 'text', text }] });
+const failed = (text: string) => ({ content: [{ type: 'text', text }], isError: true });
+
+describe('AuditLog', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'audit-'));
+    path = join(dir, 'audit.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const lines = () => readFileSync(path, 'utf8').trim().split('\n');
+
+  it('records calls with their requests, result ids and redacted arguments', async () => {
+    const log = new AuditLog(path);
+    await log.track(
+      'authentik_set_user_password',
+      { user_id: 7, password: 'hunter2' },
+      async () => {
+        recordRequest({
+          method: 'POST',
+          endpoint: '/core/users/7/set_password/',
+          status: 204,
+          duration_ms: 3,
+        });
+        recordResult({ pk: 7, username: 'bob' });
+        return ok();
+      }
+    );
+
+    const { chain, records } = log.tail();
+    expect(chain).toEqual({ valid: true, records: 1 });
+    expect(records[0]).toMatchObject({
+      tool: 'authentik_set_user_password',
+      arguments: { user_id: 7, password: '********' },
+      requests: [{ method: 'POST', endpoint: '/core/users/7/set_password/', status: 204 }],
+      status: 'ok',
+      object_ids: { pk: 7 },
+      prev_hash: '0'.repeat(64),
+    });
+  });
+
+  it('records error results and calls that throw', async () => {
+    const log = new AuditLog(path);
+    await log.track('authentik_get_user', {}, async () => failed('Error: Unknown tool'));
+    await expect(
+      log.track('authentik_get_user', {}, async () => {
+        throw new Error('Authentik client not initialized');
+      })
+    ).rejects.toThrow('Authentik client not initialized');
+
+    const { chain, records } = log.tail();
+    expect(chain.valid).toBe(true);
+    expect(records.map((record) => ({ status: record?.status, error: record?.error }))).toEqual([
+      { status: 'error', error: 'Error: Unknown tool' },
+      { status: 'error', error: 'Authentik client not initialized' },
+    ]);
+  });
+
+  it('continues the chain of an existing log', async () => {
+    await new AuditLog(path).track('authentik_list_users', {}, async () => ok());
+    const log = new AuditLog(path);
+    await log.track('authentik_list_groups', {}, async () => ok());
+
+    const { chain, records } = log.tail();
+    expect(chain).toEqual({ valid: true, records: 2 });
+    expect(records[1]?.prev_hash).toBe(records[0]?.hash);
+  });
+
+  it('detects edited, removed and corrupted records', async () => {
+    const log = new AuditLog(path);
+    for (const tool of ['authentik_list_users', 'authentik_get_user', 'authentik_list_groups']) {
+      await log.track(tool, {}, async () => ok());
+    }
+    const original = lines();
+
+    writeFileSync(
+      path,
+      [original[0], original[1].replace('get_user', 'delete_user'), original[2]].join('\n')
+    );
+    expect(log.tail().chain).toEqual({ valid: false, records: 3, first_invalid_line: 2 });
+
+    writeFileSync(path, [original[0], original[2]].join('\n'));
+    expect(log.tail().chain).toMatchObject({ valid: false, first_invalid_line: 2 });
+
+    writeFileSync(path, [original[0], original[1], '{not json'].join('\n'));
+    expect(log.tail().chain).toMatchObject({ valid: false, first_invalid_line: 3 });
+  });
+
+  it('returns the latest records of one tool', async () => {
+    const log = new AuditLog(path);
+    for (const tool of ['authentik_list_users', 'authentik_get_user', 'authentik_list_users']) {
+      await log.track(tool, {}, async () => ok());
+    }
+    const tail = log.tail(1, 'authentik_list_users');
+    expect(tail.total).toBe(2);
+    expect(tail.records).toHaveLength(1);
+  });
+});
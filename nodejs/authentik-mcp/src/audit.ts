@@ -0,0 +1,162 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createHash } from 'node:crypto';
+import { appendFileSync, existsSync, readFileSync } from 'node:fs';
+import { RequestRecord } from '@cdmx/authentik-mcp-core';
+import { redactSecrets } from './confirmation.js';
+
+// prev_hash of the first record in a log
+const GENESIS_HASH = '0'.repeat(64);
+
+// Keys that identify the object a tool created, changed or read
+const OBJECT_ID_KEYS = [
+  'pk',
+  'uuid',
+  'slug',
+  'identifier',
+  'brand_uuid',
+  'policy_uuid',
+  'pbm_uuid',
+  'pm_uuid',
+  'flow_uuid',
+];
+
+export interface AuditRecord {
+  timestamp: string;
+  tool: string;
+  arguments: unknown;
+  requests: RequestRecord[];
+  status: 'ok' | 'error';
+  error?: string;
+  duration_ms: number;
+  object_ids: Record<string, unknown>;
+  prev_hash: string;
+  hash: string;
+}
+
+interface AuditContext {
+  requests: RequestRecord[];
+  result?: unknown;
+}
+
+const auditContext = new AsyncLocalStorage<AuditContext>();
+
+/** Attach an HTTP call to the tool call currently being audited. */
+export function recordRequest(record: RequestRecord) {
+  auditContext.getStore()?.requests.push(record);
+}
+
+/** Attach the API result of the tool call currently being audited. */
+export function recordResult(result: unknown) {
+  const context = auditContext.getStore();
+  if (context) {
+    context.result = result;
+  }
+}
+
+function objectIdsOf(result: unknown): Record<string, unknown> {
+  if (typeof result !== 'object' || result === null || 'results' in result) {
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(result).filter(([key, value]) => OBJECT_ID_KEYS.includes(key) && value != null)
+  );
+}
+
+function hashRecord(record: Omit<AuditRecord, 'hash'>): string {
+  return createHash('sha256').update(JSON.stringify(record)).digest('hex');
+}
+
+/**
+ * Append-only JSONL log of tool calls. Every record carries the hash of the
+ * previous one, so editing or removing a line breaks the chain.
+ */
+export class AuditLog {
+  private lastHash: string;
+
+  constructor(private path: string) {
+    const records = this.readAll();
+    this.lastHash = records.at(-1)?.hash ?? GENESIS_HASH;
+  }
+
+  async track<T extends { isError?: boolean; content: { text?: string }[] }>(
+    tool: string,
+    args: unknown,
+    handler: () => Promise<T>
+  ): Promise<T> {
+    const context: AuditContext = { requests: [] };
+    const startedAt = Date.now();
+    const recordCall = (error?: string) =>
+      this.append({
+        timestamp: new Date(startedAt).toISOString(),
+        tool,
+        arguments: redactSecrets(args),
+        requests: context.requests,
+        status: error === undefined ? 'ok' : 'error',
+        ...(error === undefined ? {} : { error }),
+        duration_ms: Date.now() - startedAt,
+        object_ids: objectIdsOf(context.result),
+      });
+
+    let response: T;
+    try {
+      response = await auditContext.run(context, handler);
+    } catch (error: unknown) {
+      // A call that fails without an error result is recorded all the same
+      recordCall(error instanceof Error ? error.message : 'Unknown error');
+      throw error;
+    }
+    recordCall(response.isError ? (response.content[0]?.text ?? 'Unknown error') : undefined);
+    return response;
+  }
+
+  private append(entry: Omit<AuditRecord, 'hash' | 'prev_hash'>): void {
+    const record: Omit<AuditRecord, 'hash'> = { ...entry, prev_hash: this.lastHash };
+    const hash = hashRecord(record);
+    appendFileSync(this.path, `${JSON.stringify({ ...record, hash })}\n`);
+    this.lastHash = hash;
+  }
+
+  /** The most recent records (optionally of one tool) and whether the whole chain is intact. */
+  tail(limit = 20, tool?: string) {
+    const records = this.readAll();
+    const matching = records.filter((record) => record && (!tool || record.tool === tool));
+    return {
+      chain: this.verify(records),
+      total: matching.length,
+      records: matching.slice(Math.max(matching.length - limit, 0)),
+    };
+  }
+
+  private verify(records: (AuditRecord | null)[]) {
+    let prevHash = GENESIS_HASH;
+    for (const [index, entry] of records.entries()) {
+      const invalid = { valid: false, records: records.length, first_invalid_line: index + 1 };
+      if (!entry) {
+        return invalid;
+      }
+      const { hash, ...record } = entry;
+      if (record.prev_hash !== prevHash || hashRecord(record) !== hash) {
+        return invalid;
+      }
+      prevHash = hash;
+    }
+    return { valid: true, records: records.length };
+  }
+
+  // Lines that are not valid JSON are kept as null so verify() can point at them
+  private readAll(): (AuditRecord | null)[] {
+    if (!existsSync(this.path)) {
+      return [];
+    }
+    return readFileSync(this.path, 'utf8')
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => {
+        try {
+          return JSON.parse(line) as AuditRecord;
+        } catch {
+          return null;
+        }
+      });
+  }
+}
@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { ToolInputError } from '@cdmx/authentik-mcp-core';
+import { ConfirmationStore, diffChanges } from './confirmation.js';
+
+describe('ConfirmationStore', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('accepts a token once for the tool and arguments it was issued for', () => {
+    const store = new ConfirmationStore();
+    const { confirmation_token } = store.issue('authentik_delete_user', { user_id: 1, a: [1] });
+    // Key order does not change the fingerprint
+    store.consume(confirmation_token, 'authentik_delete_user', { a: [1], user_id: 1 });
+    expect(() =>
+      store.consume(confirmation_token, 'authentik_delete_user', { user_id: 1, a: [1] })
+    ).toThrow('Invalid or expired confirmation_token');
+  });
+
+  it.each([
+    ['another tool', 'authentik_delete_group', { user_id: 1 }],
+    ['other arguments', 'authentik_delete_user', { user_id: 2 }],
+  ])('rejects a token used for %s', (_case, tool, args) => {
+    const store = new ConfirmationStore();
+    const { confirmation_token } = store.issue('authentik_delete_user', { user_id: 1 });
+    expect(() => store.consume(confirmation_token, tool, args)).toThrow(
+      'confirmation_token was issued for different arguments'
+    );
+  });
+
+  it('rejects a token after five minutes', () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const store = new ConfirmationStore();
+    const { confirmation_token, expires_at } = store.issue('authentik_delete_user', {});
+    expect(expires_at).toBe('2026-01-01T00:05:00.000Z');
+
+    jest.setSystemTime(new Date('2026-01-01T00:05:00Z'));
+    expect(() => store.consume(confirmation_token, 'authentik_delete_user', {})).toThrow(
+      ToolInputError
+    );
+  });
+});
+
+describe('diffChanges', () => {
+  it('lists only the fields that change', () => {
+    expect(diffChanges({ name: 'a', tags: ['x'] }, { name: 'b', tags: ['x'], email: 'e' })).toEqual(
+      [
+        { field: 'name', before: 'a', after: 'b' },
+        { field: 'email', before: null, after: 'e' },
+      ]
+    );
+  });
+
+  it('masks secrets, including nested ones', () => {
+    expect(
+      diffChanges(
+        { password: 'old', attributes: { token: 'abc' } },
+        { password: 'new', attributes: { token: 'def', team: 'ops' } }
+      )
+    ).toEqual([
+      { field: 'password', before: '********', after: '********' },
+      {
+        field: 'attributes',
+        before: { token: '********' },
+        after: { token: '********', team: 'ops' },
+      },
+    ]);
+  });
+});
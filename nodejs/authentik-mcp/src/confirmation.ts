@@ -0,0 +1,113 @@
+import { createHash, randomUUID } from 'node:crypto';
+import { z } from 'zod';
+import { booleanArg, ToolInputError, toolInputSchema } from '@cdmx/authentik-mcp-core';
+
+// How long a confirmation token stays valid
+const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+// Argument keys whose values are never echoed back in previews
+const SECRET_KEYS = [
+  'password',
+  'bind_password',
+  'client_secret',
+  'consumer_secret',
+  'plex_token',
+  'key',
+  'token',
+];
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Arguments accepted by every mutating tool
+export const mutationArgs = z.object({
+  dry_run: booleanArg()
+    .describe('Only return a preview of the change without applying it')
+    .default(false),
+  confirmation_token: z
+    .string()
+    .describe('Token from a previous preview; required to apply changes in confirmation mode')
+    .optional(),
+});
+
+export const mutationProperties = toolInputSchema(mutationArgs).properties;
+
+export function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, inner]) => [
+        key,
+        SECRET_KEYS.includes(key) && inner ? '********' : redactSecrets(inner),
+      ])
+    );
+  }
+  return value;
+}
+
+/** Field-by-field diff between the current object and the fields a tool would set. */
+export function diffChanges(current: any, changes: Record<string, unknown>): FieldChange[] {
+  return Object.entries(changes)
+    .map(([field, after]) => ({ field, before: current?.[field] ?? null, after }))
+    .filter(({ before, after }) => JSON.stringify(before) !== JSON.stringify(after))
+    .map(({ field, before, after }) =>
+      SECRET_KEYS.includes(field)
+        ? { field, before: before ? '********' : before, after: '********' }
+        : { field, before: redactSecrets(before), after: redactSecrets(after) }
+    );
+}
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, canonicalize((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+function fingerprint(tool: string, args: Record<string, unknown>): string {
+  const canonical = JSON.stringify(canonicalize(args));
+  return createHash('sha256').update(`${tool}:${canonical}`).digest('hex');
+}
+
+/** One-time tokens that tie a preview to the exact tool call it previewed. */
+export class ConfirmationStore {
+  private pending = new Map<string, { fingerprint: string; expiresAt: number }>();
+
+  issue(tool: string, args: Record<string, unknown>) {
+    const now = Date.now();
+    for (const [token, entry] of this.pending) {
+      if (entry.expiresAt <= now) this.pending.delete(token);
+    }
+
+    const token = randomUUID();
+    const expiresAt = now + CONFIRMATION_TTL_MS;
+    this.pending.set(token, { fingerprint: fingerprint(tool, args), expiresAt });
+    return { confirmation_token: token, expires_at: new Date(expiresAt).toISOString() };
+  }
+
+  consume(token: string, tool: string, args: Record<string, unknown>) {
+    const entry = this.pending.get(token);
+    this.pending.delete(token);
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      throw new ToolInputError('Invalid or expired confirmation_token; request a new preview');
+    }
+    if (entry.fingerprint !== fingerprint(tool, args)) {
+      throw new ToolInputError(
+        'confirmation_token was issued for different arguments; request a new preview'
+      );
+    }
+  }
+}
@@ -14,625 +14,357 @@
  * - Policy management
  * - Property mapping management
  * - Source management
- * - Tenant management
+ * - Tenant (brand) management
  * - Token management
+ *
+ * The tools are defined once in @cdmx/authentik-mcp-core, which the diagnostic
+ * server shares; this server offers all of them plus a few server-specific ones.
  */
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
+  CallToolRequest,
   CallToolRequestSchema,
+  GetPromptRequest,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequest,
   ReadResourceRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import { z } from 'zod';
+import {
+  configFromCliOptions,
+  DEFAULT_POLL_INTERVAL,
+  describeTool,
+  errorResult,
+  formatToolResult,
+  InstanceRegistry,
+  integerArg,
+  loadAuthentikInstances,
+  loadPrompts,
+  MutationPlanner,
+  parseToolArguments,
+  PermissionDeniedError,
+  PromptRegistry,
+  ResourcePoller,
+  ResourceRegistry,
+  RESOURCES,
+  serve,
+  ToolCallArgs,
+  ToolContext,
+  ToolDefinition,
+  ToolInputError,
+  ToolListing,
+  ToolRegistry,
+  TOOLS,
+  TRANSPORTS,
+} from '@cdmx/authentik-mcp-core';
+import {
+  ConfirmationStore,
+  diffChanges,
+  mutationArgs,
+  mutationProperties,
+  redactSecrets,
+} from './confirmation.js';
+import { ToolPolicy } from './tool-policy.js';
+import { AuditLog, recordRequest, recordResult } from './audit.js';
 
-// Configuration schema
-const AuthentikConfigSchema = z.object({
-  baseUrl: z.string().url(),
-  token: z.string().min(1),
-  verifySSL: z.boolean().default(true),
-});
+// Authentik instances (one client each), set up in main()
+let instances: InstanceRegistry | null = null;
 
-type AuthentikConfig = z.infer<typeof AuthentikConfigSchema>;
+// Whether tools may reveal token secrets (opt-in via --allow-token-key-view)
+let allowTokenKeyView = false;
 
-// Authentik API Client
-class AuthentikClient {
-  private client: AxiosInstance;
-  private baseUrl: string;
+// Whether mutating tools need a confirmation token from a preview (--require-confirmation)
+let requireConfirmation = false;
+const confirmations = new ConfirmationStore();
 
-  constructor(config: AuthentikConfig) {
-    this.baseUrl = config.baseUrl.replace(/\/$/, '');
-    this.client = axios.create({
-      baseURL: `${this.baseUrl}/api/v3/`,
-      headers: {
-        Authorization: `Bearer ${config.token}`,
-        'Content-Type': 'application/json',
-      },
-      httpsAgent: config.verifySSL ? undefined : { rejectUnauthorized: false },
-      timeout: 30000,
-    });
-  }
-
-  async request<T = any>(
-    method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE',
-    endpoint: string,
-    data?: any,
-    params?: any
-  ): Promise<T> {
-    try {
-      const response: AxiosResponse<T> = await this.client.request({
-        method,
-        url: endpoint.startsWith('/') ? endpoint.slice(1) : endpoint,
-        data,
-        params,
-      });
-      return response.data;
-    } catch (error: any) {
-      console.error(`API request failed: ${error.message}`);
-      if (error.response) {
-        console.error(`Status: ${error.response.status}`);
-        console.error(`Data: ${JSON.stringify(error.response.data)}`);
-      }
-      throw error;
-    }
-  }
-}
+// Tools this instance exposes (--profile, --allow-tools, --deny-tools)
+let toolPolicy = new ToolPolicy();
 
-// Global client instance
-let authentikClient: AuthentikClient | null = null;
+// Local JSONL log of tool calls (--audit-log)
+let auditLog: AuditLog | null = null;
 
-// Initialize MCP server
-const server = new Server(
+// Tools only this server offers, on top of the shared ones
+const SERVER_TOOLS: ToolDefinition[] = [
   {
-    name: 'authentik-mcp',
-    version: '0.1.0',
+    name: 'authentik_view_token_key',
+    description: 'Reveal the secret key of a token',
+    args: z.object({ identifier: z.string().describe('Token identifier') }),
+    access: 'read',
+    endpoint: '/core/tokens/',
+    handler: (args, { client }) => {
+      if (!allowTokenKeyView) {
+        throw new PermissionDeniedError(
+          'Viewing token keys is disabled; start the server with --allow-token-key-view'
+        );
+      }
+      return client.request('GET', `/core/tokens/${args.identifier}/view_key/`);
+    },
   },
   {
-    capabilities: {
-      resources: {},
-      tools: {},
+    name: 'authentik_mcp_audit_tail',
+    description:
+      'Show the most recent entries of the local tool call audit log and verify its hash chain',
+    args: z.object({
+      limit: integerArg().describe('Number of entries to return').default(20),
+      tool: z.string().describe('Only return calls of this tool').optional(),
+    }),
+    access: 'read',
+    crossInstance: true,
+    handler: async (args) => {
+      if (!auditLog) {
+        throw new PermissionDeniedError(
+          'Audit logging is not enabled; start the server with --audit-log'
+        );
+      }
+      return auditLog.tail(args.limit, args.tool);
     },
-  }
-);
+  },
+];
+
+const tools = new ToolRegistry([...TOOLS, ...SERVER_TOOLS]);
+
+// The tools above that tools/list shows, once main() has applied the tool policy and options
+let offeredTools = new ToolRegistry([]);
+
+// Resources and resource templates, read through the offered tools; set up in main()
+let resources = new ResourceRegistry(RESOURCES, offeredTools);
+
+// Notifies clients of changes to resources (--poll-interval), set up in main()
+let poller: ResourcePoller | null = null;
 
 // List available resources
-server.setRequestHandler(ListResourcesRequestSchema, async () => {
-  return {
-    resources: [
-      {
-        uri: 'authentik://users',
-        name: 'Users',
-        mimeType: 'application/json',
-        description: 'List and manage Authentik users',
-      },
-      {
-        uri: 'authentik://groups',
-        name: 'Groups',
-        mimeType: 'application/json',
-        description: 'List and manage Authentik groups',
-      },
-      {
-        uri: 'authentik://applications',
-        name: 'Applications',
-        mimeType: 'application/json',
-        description: 'List and manage Authentik applications',
-      },
-      {
-        uri: 'authentik://events',
-        name: 'Events',
-        mimeType: 'application/json',
-        description: 'View Authentik system events and audit logs',
-      },
-      {
-        uri: 'authentik://flows',
-        name: 'Flows',
-        mimeType: 'application/json',
-        description: 'List and manage Authentik authentication flows',
-      },
-      {
-        uri: 'authentik://providers',
-        name: 'Providers',
-        mimeType: 'application/json',
-        description: 'List and manage Authentik providers',
-      },
-    ],
-  };
-});
+async function listResources() {
+  return { resources: resources.listResources(instances) };
+}
+
+// List resource templates such as authentik://users/{id}
+async function listResourceTemplates() {
+  return { resourceTemplates: resources.listTemplates(instances) };
+}
 
 // Read specific resource
-server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-  if (!authentikClient) {
+async function readResource(request: ReadResourceRequest) {
+  if (!instances) {
     throw new Error('Authentik client not initialized');
   }
 
   const { uri } = request.params;
-
   try {
-    let data: any;
-    switch (uri) {
-      case 'authentik://users':
-        data = await authentikClient.request('GET', '/core/users/');
-        break;
-      case 'authentik://groups':
-        data = await authentikClient.request('GET', '/core/groups/');
-        break;
-      case 'authentik://applications':
-        data = await authentikClient.request('GET', '/core/applications/');
-        break;
-      case 'authentik://events':
-        data = await authentikClient.request('GET', '/events/events/');
-        break;
-      case 'authentik://flows':
-        data = await authentikClient.request('GET', '/flows/instances/');
-        break;
-      case 'authentik://providers':
-        data = await authentikClient.request('GET', '/providers/all/');
-        break;
-      default:
-        throw new Error(`Unknown resource: ${uri}`);
-    }
-
-    return {
-      contents: [
-        {
-          uri,
-          mimeType: 'application/json',
-          text: JSON.stringify(data, null, 2),
-        },
-      ],
-    };
+    return await resources.read(uri, instances);
   } catch (error: any) {
     throw new Error(`Failed to read resource ${uri}: ${error.message}`);
   }
-});
+}
 
-// List available tools
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      // User Management Tools
-      {
-        name: 'authentik_list_users',
-        description: 'List all users in Authentik',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            search: { type: 'string', description: 'Search term for filtering users' },
-            is_active: { type: 'boolean', description: 'Filter by active status' },
-            group: { type: 'string', description: 'Filter by group membership' },
-            ordering: { type: 'string', description: 'Field to order by' },
-            page: { type: 'integer', description: 'Page number', default: 1 },
-            page_size: { type: 'integer', description: 'Number of items per page', default: 20 },
-          },
-        },
-      },
-      {
-        name: 'authentik_get_user',
-        description: 'Get details of a specific user',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            user_id: { type: 'integer', description: 'User ID to retrieve' },
-          },
-          required: ['user_id'],
-        },
-      },
-      {
-        name: 'authentik_create_user',
-        description: 'Create a new user in Authentik',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            username: { type: 'string', description: 'Username' },
-            email: { type: 'string', description: 'Email address' },
-            name: { type: 'string', description: 'Full name' },
-            password: { type: 'string', description: 'Password' },
-            is_active: { type: 'boolean', description: 'Whether user is active', default: true },
-            groups: {
-              type: 'array',
-              items: { type: 'integer' },
-              description: 'Group IDs to assign',
-            },
-          },
-          required: ['username', 'email', 'name'],
-        },
-      },
-      {
-        name: 'authentik_update_user',
-        description: 'Update an existing user',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            user_id: { type: 'integer', description: 'User ID to update' },
-            username: { type: 'string', description: 'Username' },
-            email: { type: 'string', description: 'Email address' },
-            name: { type: 'string', description: 'Full name' },
-            is_active: { type: 'boolean', description: 'Whether user is active' },
-            groups: {
-              type: 'array',
-              items: { type: 'integer' },
-              description: 'Group IDs to assign',
-            },
-          },
-          required: ['user_id'],
-        },
-      },
-      {
-        name: 'authentik_delete_user',
-        description: 'Delete a user from Authentik',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            user_id: { type: 'integer', description: 'User ID to delete' },
-          },
-          required: ['user_id'],
-        },
-      },
+// Tools only listed when an option enables them; calls explain which option that is
+const OPTIONAL_TOOLS: Record<string, () => boolean> = {
+  authentik_view_token_key: () => allowTokenKeyView,
+  authentik_mcp_audit_tail: () => auditLog !== null,
+};
 
-      // Group Management Tools
-      {
-        name: 'authentik_list_groups',
-        description: 'List all groups in Authentik',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            search: { type: 'string', description: 'Search term for filtering groups' },
-            ordering: { type: 'string', description: 'Field to order by' },
-            page: { type: 'integer', description: 'Page number', default: 1 },
-            page_size: { type: 'integer', description: 'Number of items per page', default: 20 },
-          },
-        },
-      },
-      {
-        name: 'authentik_get_group',
-        description: 'Get details of a specific group',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            group_id: { type: 'string', description: 'Group ID to retrieve' },
-          },
-          required: ['group_id'],
-        },
-      },
-      {
-        name: 'authentik_create_group',
-        description: 'Create a new group in Authentik',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            name: { type: 'string', description: 'Group name' },
-            is_superuser: {
-              type: 'boolean',
-              description: 'Whether group has superuser privileges',
-              default: false,
-            },
-            parent: { type: 'string', description: 'Parent group ID' },
-            users: {
-              type: 'array',
-              items: { type: 'integer' },
-              description: 'User IDs to add to group',
-            },
-          },
-          required: ['name'],
-        },
-      },
+// Whether tools/list shows a tool under the current tool policy and options
+function isListed(tool: ToolDefinition): boolean {
+  return toolPolicy.allows(tool.name) && (OPTIONAL_TOOLS[tool.name]?.() ?? true);
+}
 
-      // Application Management Tools
-      {
-        name: 'authentik_list_applications',
-        description: 'List all applications in Authentik',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            search: { type: 'string', description: 'Search term for filtering applications' },
-            ordering: { type: 'string', description: 'Field to order by' },
-            page: { type: 'integer', description: 'Page number', default: 1 },
-            page_size: { type: 'integer', description: 'Number of items per page', default: 20 },
-          },
-        },
-      },
-      {
-        name: 'authentik_get_application',
-        description: 'Get details of a specific application',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            app_slug: { type: 'string', description: 'Application slug to retrieve' },
-          },
-          required: ['app_slug'],
-        },
-      },
-      {
-        name: 'authentik_create_application',
-        description: 'Create a new application in Authentik',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            name: { type: 'string', description: 'Application name' },
-            slug: { type: 'string', description: 'Application slug' },
-            provider: { type: 'integer', description: 'Provider ID' },
-            meta_description: { type: 'string', description: 'Application description' },
-            meta_publisher: { type: 'string', description: 'Application publisher' },
-            policy_engine_mode: {
-              type: 'string',
-              enum: ['all', 'any'],
-              description: 'Policy engine mode',
-              default: 'any',
-            },
-          },
-          required: ['name', 'slug'],
-        },
-      },
+// Runbook prompts (built-in plus --prompts-dir), loaded in main(); a prompt is
+// only offered while every tool it calls is listed
+let prompts = new PromptRegistry([], resources, isOffered);
 
-      // Event Monitoring Tools
-      {
-        name: 'authentik_list_events',
-        description: 'List system events and audit logs',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            action: { type: 'string', description: 'Filter by event action' },
-            client_ip: { type: 'string', description: 'Filter by client IP' },
-            username: { type: 'string', description: 'Filter by username' },
-            ordering: { type: 'string', description: 'Field to order by', default: '-created' },
-            page: { type: 'integer', description: 'Page number', default: 1 },
-            page_size: { type: 'integer', description: 'Number of items per page', default: 20 },
-          },
-        },
-      },
-      {
-        name: 'authentik_get_event',
-        description: 'Get details of a specific event',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            event_id: { type: 'string', description: 'Event ID to retrieve' },
-          },
-          required: ['event_id'],
-        },
-      },
+function isOffered(name: string): boolean {
+  return offeredTools.get(name) !== undefined;
+}
 
-      // Flow Management Tools
-      {
-        name: 'authentik_list_flows',
-        description: 'List all authentication flows',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            search: { type: 'string', description: 'Search term for filtering flows' },
-            designation: { type: 'string', description: 'Filter by flow designation' },
-            ordering: { type: 'string', description: 'Field to order by' },
-            page: { type: 'integer', description: 'Page number', default: 1 },
-            page_size: { type: 'integer', description: 'Number of items per page', default: 20 },
-          },
-        },
-      },
-      {
-        name: 'authentik_get_flow',
-        description: 'Get details of a specific flow',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            flow_slug: { type: 'string', description: 'Flow slug to retrieve' },
-          },
-          required: ['flow_slug'],
-        },
-      },
+// List available prompts
+async function listPrompts() {
+  return { prompts: prompts.list() };
+}
 
-      // Provider Management Tools
-      {
-        name: 'authentik_list_providers',
-        description: 'List all providers',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            application__isnull: {
-              type: 'boolean',
-              description: 'Filter providers without applications',
-            },
-            ordering: { type: 'string', description: 'Field to order by' },
-            page: { type: 'integer', description: 'Page number', default: 1 },
-            page_size: { type: 'integer', description: 'Number of items per page', default: 20 },
-          },
-        },
-      },
-      {
-        name: 'authentik_get_provider',
-        description: 'Get details of a specific provider',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            provider_id: { type: 'integer', description: 'Provider ID to retrieve' },
-          },
-          required: ['provider_id'],
-        },
-      },
+// Fill in a prompt, attaching the resources it names
+async function getPrompt(request: GetPromptRequest) {
+  if (!instances) {
+    throw new Error('Authentik client not initialized');
+  }
+  return prompts.get(request.params.name, request.params.arguments, instances);
+}
 
-      // Token Management Tools
-      {
-        name: 'authentik_list_tokens',
-        description: 'List API tokens',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            user: { type: 'integer', description: 'Filter by user ID' },
-            identifier: { type: 'string', description: 'Filter by token identifier' },
-            ordering: { type: 'string', description: 'Field to order by' },
-            page: { type: 'integer', description: 'Page number', default: 1 },
-            page_size: { type: 'integer', description: 'Number of items per page', default: 20 },
-          },
-        },
-      },
-      {
-        name: 'authentik_create_token',
-        description: 'Create a new API token',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            identifier: { type: 'string', description: 'Token identifier' },
-            user: { type: 'integer', description: 'User ID for the token' },
-            description: { type: 'string', description: 'Token description' },
-            expires: { type: 'string', format: 'date-time', description: 'Token expiration date' },
-            expiring: { type: 'boolean', description: 'Whether token expires', default: true },
-          },
-          required: ['identifier', 'user'],
-        },
-      },
-    ],
+// Preview of a mutating tool call: the current object and what would change
+async function previewMutation(plan: MutationPlanner, args: ToolCallArgs, context: ToolContext) {
+  const { client, tool } = context;
+  const { action, endpoint, changes, summary, report, blocked } = await plan(args, context);
+  const current = endpoint ? await client.request('GET', endpoint) : null;
+  const planned =
+    typeof changes === 'function'
+      ? changes(current)
+      : (changes ?? (action === 'create' ? args : {}));
+
+  return {
+    tool: tool.name,
+    action,
+    ...(summary ? { summary } : {}),
+    current: redactSecrets(current),
+    changes: action === 'delete' ? [] : diffChanges(current, planned),
+    ...(report === undefined ? {} : { report }),
+    blocked,
   };
+}
+
+// Write tools without a preview of their own are previewed as the call they would make
+const planCall: MutationPlanner = (args, { tool }) => ({
+  action: 'action',
+  summary: `Call ${tool.name}; this tool has no detailed preview`,
+  changes: args,
 });
 
-// Handle tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  if (!authentikClient) {
-    throw new Error('Authentik client not initialized');
+function planOf(tool: ToolDefinition): MutationPlanner | undefined {
+  return tool.plan ?? (tool.access === 'write' ? planCall : undefined);
+}
+
+// Mutating tools additionally accept dry_run and confirmation_token
+function withMutationProperties(tool: ToolDefinition, listing: ToolListing): ToolListing {
+  if (!planOf(tool)) {
+    return listing;
   }
+  return {
+    ...listing,
+    inputSchema: {
+      ...listing.inputSchema,
+      properties: { ...listing.inputSchema.properties, ...mutationProperties },
+    },
+  };
+}
+
+// List available tools
+async function listTools() {
+  return {
+    tools: tools.tools.filter(isListed).map((tool) => {
+      const listing = withMutationProperties(tool, describeTool(tool));
+      // Tools that work on a single instance accept an optional instance argument
+      return !instances || tool.crossInstance ? listing : instances.withInstanceArgument(listing);
+    }),
+  };
+}
+
+// Handle tool calls
+async function callTool(request: CallToolRequest) {
+  return auditLog
+    ? auditLog.track(request.params.name, request.params.arguments, () => handleToolCall(request))
+    : handleToolCall(request);
+}
 
-  const { name, arguments: args } = request.params;
+async function handleToolCall(request: CallToolRequest) {
+  const { name } = request.params;
+  // Mutation and instance arguments are handled here and never forwarded to the API
+  const { dry_run, confirmation_token, instance, ...rawArgs } = request.params.arguments || {};
 
+  // Every failure, including the checks below, becomes an error result the audit log records
   try {
-    let result: any;
-
-    switch (name) {
-      // User Management Tools
-      case 'authentik_list_users':
-        result = await authentikClient.request('GET', '/core/users/', undefined, args);
-        break;
-
-      case 'authentik_get_user':
-        if (!args?.user_id) {
-          throw new Error('user_id is required');
-        }
-        result = await authentikClient.request('GET', `/core/users/${args.user_id}/`);
-        break;
-
-      case 'authentik_create_user':
-        result = await authentikClient.request('POST', '/core/users/', args);
-        break;
-
-      case 'authentik_update_user': {
-        if (!args?.user_id) {
-          throw new Error('user_id is required');
-        }
-        const { user_id, ...updateData } = args;
-        result = await authentikClient.request('PATCH', `/core/users/${user_id}/`, updateData);
-        break;
-      }
+    if (!instances) {
+      throw new Error('Authentik client not initialized');
+    }
+    const tool = tools.get(name);
+    if (!tool) {
+      throw new ToolInputError(`Unknown tool: ${name}`);
+    }
+    // An alias is allowed or denied along with the tool it stands for
+    if (!toolPolicy.allows(tool.name)) {
+      throw new PermissionDeniedError(
+        `Tool ${tool.name} is not allowed by this server's tool policy`
+      );
+    }
 
-      case 'authentik_delete_user':
-        if (!args?.user_id) {
-          throw new Error('user_id is required');
-        }
-        await authentikClient.request('DELETE', `/core/users/${args.user_id}/`);
-        result = { message: `User ${args.user_id} deleted successfully` };
-        break;
-
-      // Group Management Tools
-      case 'authentik_list_groups':
-        result = await authentikClient.request('GET', '/core/groups/', undefined, args);
-        break;
-
-      case 'authentik_get_group':
-        if (!args?.group_id) {
-          throw new Error('group_id is required');
-        }
-        result = await authentikClient.request('GET', `/core/groups/${args.group_id}/`);
-        break;
-
-      case 'authentik_create_group':
-        result = await authentikClient.request('POST', '/core/groups/', args);
-        break;
-
-      // Application Management Tools
-      case 'authentik_list_applications':
-        result = await authentikClient.request('GET', '/core/applications/', undefined, args);
-        break;
-
-      case 'authentik_get_application':
-        if (!args?.app_slug) {
-          throw new Error('app_slug is required');
-        }
-        result = await authentikClient.request('GET', `/core/applications/${args.app_slug}/`);
-        break;
-
-      case 'authentik_create_application':
-        result = await authentikClient.request('POST', '/core/applications/', args);
-        break;
-
-      // Event Monitoring Tools
-      case 'authentik_list_events':
-        result = await authentikClient.request('GET', '/events/events/', undefined, args);
-        break;
-
-      case 'authentik_get_event':
-        if (!args?.event_id) {
-          throw new Error('event_id is required');
-        }
-        result = await authentikClient.request('GET', `/events/events/${args.event_id}/`);
-        break;
-
-      // Flow Management Tools
-      case 'authentik_list_flows':
-        result = await authentikClient.request('GET', '/flows/instances/', undefined, args);
-        break;
-
-      case 'authentik_get_flow':
-        if (!args?.flow_slug) {
-          throw new Error('flow_slug is required');
-        }
-        result = await authentikClient.request('GET', `/flows/instances/${args.flow_slug}/`);
-        break;
-
-      // Provider Management Tools
-      case 'authentik_list_providers':
-        result = await authentikClient.request('GET', '/providers/all/', undefined, args);
-        break;
-
-      case 'authentik_get_provider':
-        if (!args?.provider_id) {
-          throw new Error('provider_id is required');
-        }
-        result = await authentikClient.request('GET', `/providers/all/${args.provider_id}/`);
-        break;
-
-      // Token Management Tools
-      case 'authentik_list_tokens':
-        result = await authentikClient.request('GET', '/core/tokens/', undefined, args);
-        break;
-
-      case 'authentik_create_token':
-        result = await authentikClient.request('POST', '/core/tokens/', args);
-        break;
-
-      default:
-        throw new Error(`Unknown tool: ${name}`);
+    // Output shaping arguments are validated with the rest but not forwarded either
+    const { fields, output, ...args } = parseToolArguments(name, tool.args, rawArgs);
+    const mutation = parseToolArguments(name, mutationArgs, { dry_run, confirmation_token });
+    const plan = planOf(tool);
+    const context: ToolContext = {
+      client: instances.client(instance),
+      instances,
+      tool,
+      allowTokenKeyView,
+    };
+    // Confirmations are bound to the instance as well as to the arguments
+    const confirmedArgs = { ...args, instance: instance ?? instances.defaultInstance };
+
+    const confirm = requireConfirmation || Boolean(tool.alwaysConfirm);
+    if (plan && (mutation.dry_run || (confirm && !mutation.confirmation_token))) {
+      const { blocked, ...preview } = await previewMutation(plan, args, context);
+      const message =
+        blocked ??
+        (mutation.dry_run
+          ? 'Dry run: no changes were made'
+          : 'Confirmation required: call the tool again with the same arguments and this confirmation_token');
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                ...preview,
+                message,
+                ...(mutation.dry_run || blocked
+                  ? {}
+                  : confirmations.issue(tool.name, confirmedArgs)),
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+    if (plan && confirm) {
+      confirmations.consume(String(mutation.confirmation_token), tool.name, confirmedArgs);
     }
 
+    const result = await tool.handler(args, context);
+    recordResult(result);
     return {
       content: [
         {
           type: 'text',
-          text: JSON.stringify(result, null, 2),
+          text: formatToolResult(result, { fields, output, resource: tool.resource }),
         },
       ],
     };
   } catch (error: any) {
     console.error(`Tool call failed: ${error.message}`);
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Error: ${error.message}`,
-        },
-      ],
-      isError: true,
-    };
+    return errorResult(error);
   }
-});
+}
+
+// Create an MCP server; the HTTP transport creates one per client session
+function createServer() {
+  const server = new Server(
+    {
+      name: 'authentik-mcp',
+      version: '0.1.0',
+    },
+    {
+      capabilities: {
+        prompts: {},
+        resources: { subscribe: poller !== null, listChanged: poller !== null },
+        tools: {},
+      },
+    }
+  );
+
+  server.setRequestHandler(ListPromptsRequestSchema, listPrompts);
+  server.setRequestHandler(GetPromptRequestSchema, getPrompt);
+  server.setRequestHandler(ListResourcesRequestSchema, listResources);
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, listResourceTemplates);
+  server.setRequestHandler(ReadResourceRequestSchema, readResource);
+  server.setRequestHandler(ListToolsRequestSchema, listTools);
+  server.setRequestHandler(CallToolRequestSchema, callTool);
+  poller?.register(server);
+  return server;
+}
 
 // Main function
 async function main() {
@@ -642,34 +374,128 @@ async function main() {
     .name('authentik-mcp')
     .description('Authentik MCP Server - Full API Integration')
     .version('0.1.0')
-    .requiredOption('--base-url <url>', 'Authentik base URL')
-    .requiredOption('--token <token>', 'Authentik API token')
+    .option('--base-url <url>', 'Authentik base URL (or AUTHENTIK_BASE_URL)')
+    .option('--token <token>', 'Authentik API token (or AUTHENTIK_TOKEN; prefer --token-file)')
+    .option('--token-file <path>', 'File containing the API token (or AUTHENTIK_TOKEN_FILE)')
+    .option('--config <file>', 'YAML or JSON configuration file (or AUTHENTIK_CONFIG)')
+    .option('--instance <name>', 'Default instance from the config file (or AUTHENTIK_INSTANCE)')
     .option('--no-verify-ssl', 'Disable SSL verification')
+    .option('--timeout <seconds>', 'API request timeout in seconds (default: 30)')
+    .option('--debug', 'Log every API request to stderr')
+    .option('--user-agent <agent>', 'User-Agent header for API requests')
+    .option('--max-retries <count>', 'Retries of failed idempotent API requests (default: 3)')
+    .option('--retry-delay <seconds>', 'Base delay of the retry backoff in seconds (default: 0.5)')
+    .option('--max-concurrency <count>', 'API requests in flight at once (default: 8)')
+    .option('--allow-token-key-view', 'Allow tools to reveal token secret keys')
+    .option(
+      '--require-confirmation',
+      'Require a confirmation token from a preview before applying mutating tools'
+    )
+    .option(
+      '--allow-tools <globs>',
+      'Comma separated tool name globs to expose (e.g. "authentik_list_*")'
+    )
+    .option('--deny-tools <globs>', 'Comma separated tool name globs to hide')
+    .option('--profile <name>', 'Tool profile to expose (helpdesk, app-onboarding, auditor)')
+    .option('--profiles-file <path>', 'JSON file with additional or overriding tool profiles')
+    .option('--prompts-dir <path>', 'Directory of YAML or JSON prompt files to add or override')
+    .option(
+      '--poll-interval <seconds>',
+      `Seconds between checks of subscribed resources; 0 disables subscriptions (default: ${DEFAULT_POLL_INTERVAL})`
+    )
+    .option(
+      '--audit-log <path>',
+      'Append a hash-chained JSONL record of every tool call to this file'
+    )
+    .addOption(
+      new Option('--transport <type>', 'MCP transport').choices(TRANSPORTS).default('stdio')
+    )
+    .addOption(
+      new Option('--host <host>', 'Host for the HTTP transport')
+        .env('MCP_HOST')
+        .default('localhost')
+    )
+    .addOption(
+      new Option('--port <port>', 'Port for the HTTP transport').env('MCP_PORT').default('3000')
+    )
+    .addOption(
+      new Option('--auth-token <token>', 'Bearer token HTTP clients must present').env(
+        'MCP_AUTH_TOKEN'
+      )
+    )
     .parse();
 
   const options = program.opts();
+  allowTokenKeyView = Boolean(options.allowTokenKeyView);
+  requireConfirmation = Boolean(options.requireConfirmation);
 
-  // Initialize Authentik client
   try {
-    const config = AuthentikConfigSchema.parse({
-      baseUrl: options.baseUrl,
-      token: options.token,
-      verifySSL: options.verifySsl !== false,
-    });
+    toolPolicy = ToolPolicy.fromOptions(options);
+  } catch (error: any) {
+    console.error(`Invalid tool policy: ${error.message}`);
+    process.exit(1);
+  }
 
-    authentikClient = new AuthentikClient(config);
+  // Initialize Authentik clients
+  try {
+    instances = new InstanceRegistry(
+      loadAuthentikInstances({
+        cli: configFromCliOptions(options),
+        configFile: options.config,
+        defaultInstance: options.instance,
+      })
+    );
+  } catch (error: any) {
+    console.error(error.message);
+    process.exit(1);
+  }
 
-    // Test connection
-    await authentikClient.request('GET', '/root/config/');
-    console.error('Successfully connected to Authentik API');
+  if (options.auditLog) {
+    auditLog = new AuditLog(options.auditLog);
+    for (const [, client] of instances.entries()) {
+      client.onRequest = recordRequest;
+    }
+  }
+
+  offeredTools = new ToolRegistry(tools.tools.filter(isListed));
+  resources = new ResourceRegistry(RESOURCES, offeredTools);
+  try {
+    prompts = new PromptRegistry(loadPrompts(options.promptsDir), resources, isOffered);
   } catch (error: any) {
-    console.error(`Failed to connect to Authentik API: ${error.message}`);
+    console.error(error.message);
     process.exit(1);
   }
 
+  const pollInterval = Number(options.pollInterval ?? DEFAULT_POLL_INTERVAL);
+  if (!(pollInterval >= 0)) {
+    console.error(`Invalid poll interval: ${options.pollInterval}`);
+    process.exit(1);
+  }
+  if (pollInterval > 0) {
+    poller = new ResourcePoller(resources, instances, pollInterval * 1000);
+  }
+
+  // Test connections; only an unreachable default instance is fatal
+  for (const [name, client] of instances.entries()) {
+    const label = instances.isMultiInstance ? ` (${name})` : '';
+    try {
+      await client.request('GET', '/root/config/');
+      console.error(`Successfully connected to Authentik API${label}`);
+    } catch (error: any) {
+      console.error(`Failed to connect to Authentik API${label}: ${error.message}`);
+      if (name === instances.defaultInstance) {
+        process.exit(1);
+      }
+    }
+  }
+
   // Start MCP server
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await serve(createServer, {
+    transport: options.transport,
+    host: options.host,
+    port: Number(options.port),
+    authToken: options.authToken,
+  });
   console.error('Authentik MCP Server running');
 }
 
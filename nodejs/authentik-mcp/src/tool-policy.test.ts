@@ -0,0 +1,71 @@
+import { describe, expect, it } from '@jest/globals';
+import { BUILTIN_PROFILES, parseGlobList, ToolPolicy } from './tool-policy.js';
+
+describe('parseGlobList', () => {
+  it('splits and trims a comma separated list', () => {
+    expect(parseGlobList(' authentik_list_* , ,authentik_get_user')).toEqual([
+      'authentik_list_*',
+      'authentik_get_user',
+    ]);
+    expect(parseGlobList(undefined)).toBeUndefined();
+  });
+});
+
+describe('ToolPolicy', () => {
+  it('allows every tool without rules', () => {
+    expect(new ToolPolicy().allows('authentik_delete_user')).toBe(true);
+  });
+
+  it('matches * against any run of characters and nothing else', () => {
+    const policy = ToolPolicy.fromOptions({ allowTools: 'authentik_list_*,authentik_get_user' });
+    expect(policy.allows('authentik_list_users')).toBe(true);
+    expect(policy.allows('authentik_get_user')).toBe(true);
+    expect(policy.allows('authentik_get_user_events')).toBe(false);
+    expect(policy.allows('xauthentik_list_users')).toBe(false);
+  });
+
+  it('treats other characters literally', () => {
+    const policy = ToolPolicy.fromOptions({ allowTools: 'authentik.list_(users)' });
+    expect(policy.allows('authentik.list_(users)')).toBe(true);
+    expect(policy.allows('authentikXlist_(users)')).toBe(false);
+  });
+
+  it('lets deny globs win over allow globs', () => {
+    const policy = ToolPolicy.fromOptions({
+      allowTools: 'authentik_*',
+      denyTools: 'authentik_delete_*',
+    });
+    expect(policy.allows('authentik_update_user')).toBe(true);
+    expect(policy.allows('authentik_delete_user')).toBe(false);
+  });
+
+  it('requires a tool to pass both the profile and the globs', () => {
+    const policy = ToolPolicy.fromOptions({ profile: 'helpdesk', denyTools: '*_password' });
+    expect(policy.allows('authentik_get_user')).toBe(true);
+    expect(policy.allows('authentik_set_user_password')).toBe(false);
+    expect(policy.allows('authentik_delete_user')).toBe(false);
+  });
+
+  it('rejects an unknown profile', () => {
+    expect(() => ToolPolicy.fromOptions({ profile: 'root' })).toThrow(/Unknown profile: root/);
+  });
+
+  it('lets auditors read and export but never change anything or reveal keys', () => {
+    const auditor = new ToolPolicy([BUILTIN_PROFILES.auditor]);
+    for (const tool of [
+      'authentik_list_users',
+      'authentik_get_flow',
+      'authentik_export_users',
+      'authentik_mcp_audit_tail',
+    ]) {
+      expect(auditor.allows(tool)).toBe(true);
+    }
+    for (const tool of [
+      'authentik_view_token_key',
+      'authentik_update_user',
+      'authentik_import_users',
+    ]) {
+      expect(auditor.allows(tool)).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,137 @@
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+
+/** Allow/deny globs for tool names; `*` matches any run of characters. */
+export const ToolRulesSchema = z.object({
+  allow: z.array(z.string()).optional(),
+  deny: z.array(z.string()).optional(),
+});
+
+export type ToolRules = z.infer<typeof ToolRulesSchema>;
+
+export const ToolProfilesFileSchema = z.object({
+  profiles: z.record(ToolRulesSchema),
+});
+
+// Profiles available without a profiles file; a file may override or add to them
+export const BUILTIN_PROFILES: Record<string, ToolRules> = {
+  helpdesk: {
+    allow: [
+      'authentik_list_users',
+      'authentik_get_user',
+      'authentik_update_user',
+      'authentik_set_user_password',
+      'authentik_create_recovery_link',
+      'authentik_*_user_sessions',
+      'authentik_*_user_authenticator*',
+      'authentik_list_groups',
+      'authentik_get_group',
+      'authentik_add_user_to_group',
+      'authentik_remove_user_from_group',
+      'authentik_list_events',
+      'authentik_get_event',
+    ],
+  },
+  'app-onboarding': {
+    allow: [
+      'authentik_*_application',
+      'authentik_list_applications',
+      'authentik_*_provider',
+      'authentik_list_providers',
+      'authentik_*_property_mapping',
+      'authentik_list_property_mappings',
+      'authentik_*_policy_binding',
+      'authentik_list_policy_bindings',
+      'authentik_list_policies',
+      'authentik_get_policy',
+      'authentik_list_flows',
+      'authentik_get_flow',
+      'authentik_list_groups',
+      'authentik_get_group',
+    ],
+  },
+  auditor: {
+    allow: [
+      'authentik_list_*',
+      'authentik_get_*',
+      'authentik_export_flow',
+      'authentik_export_users',
+      'authentik_test_policy',
+      'authentik_mcp_audit_tail',
+    ],
+    deny: ['authentik_view_token_key'],
+  },
+};
+
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${pattern}$`);
+}
+
+function matchesAny(globs: string[], name: string): boolean {
+  return globs.some((glob) => globToRegExp(glob).test(name));
+}
+
+/** Split a comma separated CLI value into globs. */
+export function parseGlobList(value?: string): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return value
+    .split(',')
+    .map((glob) => glob.trim())
+    .filter(Boolean);
+}
+
+export function loadToolProfiles(path?: string): Record<string, ToolRules> {
+  if (!path) {
+    return BUILTIN_PROFILES;
+  }
+  const parsed = ToolProfilesFileSchema.safeParse(JSON.parse(readFileSync(path, 'utf8')));
+  if (!parsed.success) {
+    throw new Error(`Invalid profiles file ${path}: ${parsed.error.message}`);
+  }
+  return { ...BUILTIN_PROFILES, ...parsed.data.profiles };
+}
+
+/**
+ * Which tools a server instance exposes. A tool must pass every rule set
+ * (e.g. both the selected profile and --allow-tools/--deny-tools): it has to
+ * match an allow glob, when any are given, and must not match a deny glob.
+ */
+export class ToolPolicy {
+  constructor(private rules: ToolRules[] = []) {}
+
+  static fromOptions(options: {
+    profile?: string;
+    profilesFile?: string;
+    allowTools?: string;
+    denyTools?: string;
+  }): ToolPolicy {
+    const rules: ToolRules[] = [];
+    if (options.profile) {
+      const profiles = loadToolProfiles(options.profilesFile);
+      const profile = profiles[options.profile];
+      if (!profile) {
+        throw new Error(
+          `Unknown profile: ${options.profile}. Expected one of ${Object.keys(profiles).join(', ')}`
+        );
+      }
+      rules.push(profile);
+    }
+    rules.push({
+      allow: parseGlobList(options.allowTools),
+      deny: parseGlobList(options.denyTools),
+    });
+    return new ToolPolicy(rules);
+  }
+
+  allows(name: string): boolean {
+    return this.rules.every(
+      ({ allow, deny }) => (!allow || matchesAny(allow, name)) && !(deny && matchesAny(deny, name))
+    );
+  }
+}
@@ -21,7 +21,12 @@ cd ../../
 # Publish Node.js packages to npm
 echo "Publishing Node.js packages to npm..."
 
-cd nodejs/authentik-mcp
+cd nodejs/authentik-mcp-core
+echo "Publishing authentik-mcp-core to npm..."
+npm publish
+echo "✓ authentik-mcp-core published to npm"
+
+cd ../authentik-mcp
 echo "Publishing authentik-mcp to npm..."
 npm publish
 echo "✓ authentik-mcp published to npm"
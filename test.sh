@@ -83,13 +83,16 @@ echo ""
 print_status "Testing Node.js packages..."
 echo "----------------------------------------"
 
+# Install the Node.js workspace and build the shared core package
+run_test "Node.js workspace: npm install" "npm install" "nodejs"
+run_test "Node.js authentik-mcp-core: TypeScript build" "npm run build" "nodejs/authentik-mcp-core"
+run_test "Node.js authentik-mcp-core: lint check" "npm run lint" "nodejs/authentik-mcp-core"
+
 # Test Node.js authentik-mcp
-run_test "Node.js authentik-mcp: npm install" "npm install" "nodejs/authentik-mcp"
 run_test "Node.js authentik-mcp: TypeScript build" "npm run build" "nodejs/authentik-mcp"
 run_test "Node.js authentik-mcp: lint check" "npm run lint" "nodejs/authentik-mcp"
 
 # Test Node.js authentik-diag-mcp
-run_test "Node.js authentik-diag-mcp: npm install" "npm install" "nodejs/authentik-diag-mcp"
 run_test "Node.js authentik-diag-mcp: TypeScript build" "npm run build" "nodejs/authentik-diag-mcp"
 run_test "Node.js authentik-diag-mcp: lint check" "npm run lint" "nodejs/authentik-diag-mcp"
 
@@ -127,6 +130,7 @@ run_test "Python authentik-diag-mcp structure" "test -f python/authentik-diag-mc
 
 # Test Node.js package structures
 run_test "Node.js authentik-mcp structure" "test -f nodejs/authentik-mcp/src/index.ts && test -f nodejs/authentik-mcp/package.json"
+run_test "Node.js authentik-mcp-core structure" "test -f nodejs/authentik-mcp-core/src/index.ts && test -f nodejs/authentik-mcp-core/package.json"
 run_test "Node.js authentik-diag-mcp structure" "test -f nodejs/authentik-diag-mcp/src/index.ts && test -f nodejs/authentik-diag-mcp/package.json"
 
 echo ""